@@ -0,0 +1,44 @@
+import { Command } from "commander";
+import * as path from "node:path";
+import process from "node:process";
+
+import { pruneCache } from "./cache-prune.ts";
+import type { CachePruneOptions } from "./utils/types.ts";
+import { ENV_HELP } from "./utils/cli-utils.ts";
+
+export function makeCacheCommand(): Command {
+  const cmd = new Command("cache")
+    .description('Manage the rendered-diagram cache');
+
+  cmd.command("prune")
+    .description('Delete rendered diagrams no topic references any more (only files listed in the cache manifest)')
+    .argument('[dir]', 'Project root directory', '.')
+    .option('--md <dir>',                'Topics directory (relative to [dir])',  'topics')
+    .option('--images <dir>',            'Images directory (relative to [dir])',  'images')
+    .option('--instance <id>',           'Only this instance\'s %variables% (default: keep diagrams any instance draws)')
+    .option('--dry-run',                 'List what would be deleted; delete nothing')
+    .addHelpText('after', ENV_HELP)
+    .action(async (dirArg, opts) => {
+      try {
+        const rootDir = path.resolve(process.cwd(), dirArg ?? '.');
+        const runOpts: CachePruneOptions = {
+          rootDir,
+          md: path.resolve(rootDir, opts.md ?? 'topics'),
+          images: path.resolve(rootDir, opts.images ?? 'images'),
+          dryRun: !!opts.dryRun,
+          instance: opts.instance,
+        };
+
+        const { removed, kept } = await pruneCache(runOpts);
+        for (const file of removed) console.log(`🗑️  ${path.relative(rootDir, file)}`);
+        console.log(
+          `✅ ${removed.length} diagram(s) ${runOpts.dryRun ? 'would be removed' : 'removed'}, ${kept} still referenced.`,
+        );
+      } catch (err) {
+        console.error('❌ Fatal:', (err as Error)?.message ?? err);
+        process.exitCode = 1;
+      }
+    });
+
+  return cmd;
+}
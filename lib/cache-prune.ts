@@ -0,0 +1,87 @@
+/**********************************************************************
+ * cache-prune.ts — Library-style module (no argv parsing / no exit)
+ * `authord cache prune`: delete rendered diagrams of this project that
+ * no topic references any more.
+ *
+ * Every .md under the topics dir goes through the transformer's source
+ * stages (includes, <tabs>, %variables%; see codeBlocks()) and the cache
+ * names of its diagram fences are computed with the current tool
+ * versions and options (utils/diagrams.ts). Variables are those of
+ * --instance, else of every instance, so a diagram any instance still
+ * draws is kept. Manifest entries in
+ * this project's image dir that match none of them are deleted, so
+ * renders for an old theme or tool version go too. Files the manifest
+ * does not list (your own images) are never touched.
+ *********************************************************************/
+
+import fs      from 'node:fs/promises';
+import fss     from 'node:fs';
+import path    from 'node:path';
+import process from 'node:process';
+
+import { readDiagramManifest, writeDiagramManifest } from './utils/diagram-cache.ts';
+import { diagramCacheKey, diagramRenderer } from './utils/diagrams.ts';
+import { IMAGE_DIR, setImageDir } from './utils/images.ts';
+import { listAllMdFilesRecursive, readWritersideInstances } from './utils/topic-order.ts';
+import type { CachePruneOptions } from './utils/types.ts';
+import { loadVariables } from './utils/writerside-project.ts';
+import { WritersideMarkdownTransformerDC } from './writerside-markdown-transformer.ts';
+
+export interface PruneResult {
+  /** Deleted (or, with dryRun, deletable) diagram files */
+  removed: string[];
+  /** Diagrams of this project still referenced by a topic */
+  kept: number;
+}
+
+/**
+ * Cache keys (file names without .png / .svg) of every diagram fence in the topics
+ * under mdDir, with the variables of each given instance (undefined: the default).
+ */
+async function referencedDiagrams(rootDir: string, mdDir: string, instances: (string | undefined)[]): Promise<Set<string>> {
+  const names = new Set<string>();
+  const files = await listAllMdFilesRecursive(mdDir);
+  for (const instance of instances) {
+    const variables   = await loadVariables(rootDir, instance);
+    const transformer = new WritersideMarkdownTransformerDC({ variables, topicsDir: mdDir });
+    for (const file of files) {
+      for (const code of await transformer.codeBlocks(await fs.readFile(file, 'utf8'), file)) {
+        const renderer = diagramRenderer(code.lang);
+        if (renderer) names.add(await diagramCacheKey(renderer, code.value || ''));
+      }
+    }
+  }
+  return names;
+}
+
+export async function pruneCache(options: CachePruneOptions): Promise<PruneResult> {
+  const rootDir = options.rootDir ?? process.cwd();
+  const mdDir   = path.resolve(rootDir, options.md);
+  if (!process.env.AUTHORD_IMAGE_DIR) {
+    setImageDir(path.resolve(rootDir, options.images));
+  }
+  const imgDir = path.resolve(IMAGE_DIR);
+
+  const ids        = (await readWritersideInstances(rootDir))?.map(i => i.id);
+  const instances  = options.instance ? [options.instance] : ids?.length ? ids : [undefined];
+  const referenced = await referencedDiagrams(rootDir, mdDir, instances);
+  const manifest   = await readDiagramManifest();
+  const result: PruneResult = { removed: [], kept: 0 };
+
+  for (const [file, entry] of Object.entries(manifest.diagrams)) {
+    if (path.resolve(entry.imageDir) !== imgDir) continue;       // another project's diagram
+    if (referenced.has(path.basename(file, path.extname(file))) && fss.existsSync(file)) {
+      result.kept++;
+      continue;
+    }
+    if (fss.existsSync(file)) result.removed.push(file);
+    if (!options.dryRun) {
+      await fs.rm(file, { force: true });
+      delete manifest.diagrams[file];
+    }
+  }
+
+  if (!options.dryRun) await writeDiagramManifest(manifest);
+  result.removed.sort();
+  return result;
+}
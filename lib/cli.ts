@@ -1,6 +1,10 @@
 #!/usr/bin/env -S deno run -A
 import { Command } from "commander";
 import { makeConfluenceSingle } from "./confluence-single.ts";
+import { makeConfluenceTree } from "./confluence-tree.ts";
+import { makeConfluenceExport } from "./confluence-export.ts";
+import { makeCacheCommand } from "./cache-command.ts";
+import { closeMermaidRenderer } from "./utils/mermaid.ts";
 
 const program = new Command()
   .name("authord")
@@ -9,6 +13,13 @@ const program = new Command()
   .showHelpAfterError();
 
 program.addCommand(makeConfluenceSingle());
+program.addCommand(makeConfluenceTree());
+program.addCommand(makeConfluenceExport());
+program.addCommand(makeCacheCommand());
 
-await program.parseAsync(Deno.args, { from: "user" });
+try {
+  await program.parseAsync(Deno.args, { from: "user" });
+} finally {
+  await closeMermaidRenderer(); // shared Mermaid browser, if any diagram started it
+}
 
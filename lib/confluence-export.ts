@@ -0,0 +1,51 @@
+import { Command } from "commander";
+import * as path from "node:path";
+import process from "node:process";
+
+import { exportSingle } from "./export-single.ts";
+import type { ExportSingleOptions } from "./utils/types.ts";
+import { detectProjectType, ENV_HELP, parseTabStyle, validateProject } from "./utils/cli-utils.ts";
+
+export function makeConfluenceExport(): Command {
+  const cmd = new Command("export")
+    .description('Write the single-page storage XHTML, its attachments and a manifest to a directory (no network)')
+    .argument('[dir]', 'Project root directory', '.')
+    .requiredOption('--out <dir>',       'Output directory (relative to the current directory)')
+    .option('--md <dir>',                'Topics directory (relative to [dir])',  'topics')
+    .option('--images <dir>',            'Images directory (relative to [dir])',  'images')
+    .option('--instance <id>',           'Only this instance (Writerside instance-profile id / Authord instance id)')
+    .option('--orphans',                 'Append topics not referenced by any instance tree at the end')
+    .option('--no-heading-shift',        'Keep topic headings as written (default: demote by TOC depth)')
+    .option('--tabs <style>',            'Writerside <tabs> as "expand" macros or titled "panel"s', parseTabStyle, 'expand')
+    .option('--strict-diagrams',         'Fail when a diagram cannot be rendered (default: publish it as code with a warning)')
+    .addHelpText('after', ENV_HELP)
+    .action(async (dirArg, opts) => {
+      try {
+        const rootDir = path.resolve(process.cwd(), dirArg ?? '.');
+
+        const projectType = detectProjectType(rootDir);
+        await validateProject(rootDir, projectType);
+
+        const runOpts: ExportSingleOptions = {
+          rootDir,
+          md: path.resolve(rootDir, opts.md ?? 'topics'),
+          images: path.resolve(rootDir, opts.images ?? 'images'),
+          out: path.resolve(process.cwd(), opts.out),
+          instance: opts.instance,
+          orphans: !!opts.orphans,
+          headingShift: opts.headingShift,
+          tabs: opts.tabs,
+          strictDiagrams: !!opts.strictDiagrams,
+        };
+
+        console.log('🚀 Running offline export...');
+        await exportSingle(runOpts);
+        console.log('✅ Done.');
+      } catch (err) {
+        console.error('❌ Fatal:', (err as Error)?.message ?? err);
+        process.exitCode = 1;
+      }
+    });
+
+  return cmd;
+}
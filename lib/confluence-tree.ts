@@ -0,0 +1,64 @@
+import { Command } from "commander";
+import * as path from "node:path";
+import process from "node:process";
+
+import { publishTree } from "./publish-tree.ts";
+import type { PublishTreeOptions } from "./utils/types.ts";
+import { detectProjectType, ENV_HELP, parseTabStyle, validateProject } from "./utils/cli-utils.ts";
+
+export function makeConfluenceTree(): Command {
+  const cmd = new Command("confluence-tree")
+    .description('Publish one Confluence child page per toc-element, nested under a root page')
+    .argument('[dir]', 'Project root directory', '.')
+    .requiredOption('--base-url <url>', 'Confluence base URL')
+    .requiredOption('--basic-auth <u:p>', 'Basic authentication as user:pass')
+    .option('-i, --page-id <id>',        'Existing Confluence page ID to nest the topic pages under')
+    .option('--space <key>',             'Space to find (by title) or create the root page in, when no --page-id')
+    .option('--parent-id <id>',          'Parent page for a root page created with --space')
+    .option('--title <t>',               'Root page title with --space (defaults to the project name)')
+    .option('--md <dir>',                'Topics directory (relative to [dir])',  'topics')
+    .option('--images <dir>',            'Images directory (relative to [dir])',  'images')
+    .option('--instance <id>',           'Only this instance (Writerside instance-profile id / Authord instance id)')
+    .option('--orphans',                 'Append topics not referenced by any instance tree at the end')
+    .option('--force',                   'Overwrite pages edited in Confluence since the last publish')
+    .option('--tabs <style>',            'Writerside <tabs> as "expand" macros or titled "panel"s', parseTabStyle, 'expand')
+    .option('--strict-diagrams',         'Fail when a diagram cannot be rendered (default: publish it as code with a warning)')
+    .addHelpText('after', ENV_HELP)
+    .action(async (dirArg, opts) => {
+      try {
+        const rootDir = path.resolve(process.cwd(), dirArg ?? '.');
+        if (!opts.pageId && !opts.space) {
+          throw new Error('Either --page-id or --space is required');
+        }
+
+        const projectType = detectProjectType(rootDir);
+        await validateProject(rootDir, projectType);
+
+        const runOpts: PublishTreeOptions = {
+          rootDir,
+          md: path.resolve(rootDir, opts.md ?? 'topics'),
+          images: path.resolve(rootDir, opts.images ?? 'images'),
+          baseUrl: opts.baseUrl || process.env.CONF_BASE_URL || '',
+          basicAuth: opts.basicAuth || process.env.CONF_BASIC_AUTH || '',
+          pageId: opts.pageId,
+          spaceKey: opts.space,
+          parentId: opts.parentId,
+          title: opts.title,
+          force: !!opts.force,
+          instance: opts.instance,
+          orphans: !!opts.orphans,
+          tabs: opts.tabs,
+          strictDiagrams: !!opts.strictDiagrams,
+        };
+
+        console.log('🚀 Running page-tree export...');
+        await publishTree(runOpts);
+        console.log('✅ Done.');
+      } catch (err) {
+        console.error('❌ Fatal:', (err as Error)?.message ?? err);
+        process.exitCode = 1;
+      }
+    });
+
+  return cmd;
+}
@@ -0,0 +1,78 @@
+/**********************************************************************
+ * export-single.ts — Library-style module (no argv parsing / no exit)
+ * Offline counterpart of publish-single.ts: run the same flattening
+ * pipeline and write the result to a directory instead of Confluence.
+ *
+ * <out>/page.xhtml       storage XHTML, exactly what would be published
+ * <out>/attachments/*    every ri:filename the body references
+ * <out>/manifest.json    hash (= exportHash), topics, attachment digests
+ *
+ * No timestamps are written, so two exports of the same input diff clean.
+ *********************************************************************/
+
+import fs     from 'node:fs/promises';
+import fss    from 'node:fs';
+import path   from 'node:path';
+import process from 'node:process';
+
+import { buildSinglePage } from './publish-single.ts';
+import { IMAGE_DIR, setImageDir } from './utils/images.ts';
+import { extractFilenames, sha256 } from './utils/publish-utils.ts';
+import type { ExportSingleOptions } from './utils/types.ts';
+
+export interface ExportManifest {
+  hash: string;
+  topics: string[];
+  attachments: { file: string; sha256: string; bytes: number }[];
+  missing: string[];
+}
+
+export async function exportSingle(options: ExportSingleOptions): Promise<ExportManifest> {
+  if (!options.out) throw new Error('Missing required option: out');
+
+  const rootDir = options.rootDir ?? process.cwd();
+  const mdDir   = path.resolve(rootDir, options.md);
+  const imgDir  = path.resolve(rootDir, options.images);
+  const outDir  = path.resolve(rootDir, options.out);
+
+  if (!process.env.AUTHORD_IMAGE_DIR) {
+    setImageDir(imgDir);
+  }
+
+  const { topics, storageHtml, hash } = await buildSinglePage(rootDir, mdDir, options, {
+    headingShift: options.headingShift,
+    tabs: options.tabs,
+    strictDiagrams: options.strictDiagrams,
+  });
+
+  const attDir = path.join(outDir, 'attachments');
+  await fs.mkdir(attDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, 'page.xhtml'), storageHtml, 'utf8');
+
+  const manifest: ExportManifest = {
+    hash,
+    topics: topics.map(t => path.relative(rootDir, t).split(path.sep).join('/')),
+    attachments: [],
+    missing: [],
+  };
+
+  for (const file of [...new Set(extractFilenames(storageHtml))].sort()) {
+    // Generated diagrams land in IMAGE_DIR (may differ from imgDir via AUTHORD_IMAGE_DIR)
+    const src = [path.join(imgDir, file), path.join(IMAGE_DIR, file)].find(p => fss.existsSync(p));
+    if (!src) {
+      manifest.missing.push(file);
+      continue;
+    }
+    const buf = await fs.readFile(src);
+    await fs.writeFile(path.join(attDir, file), buf);
+    manifest.attachments.push({ file, sha256: sha256(buf), bytes: buf.length });
+  }
+
+  await fs.writeFile(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+
+  if (manifest.missing.length) {
+    console.warn(`⚠️ ${manifest.missing.length} referenced attachment(s) not found: ${manifest.missing.join(', ')}`);
+  }
+  console.log(`📦 Exported ${topics.length} topic(s), ${manifest.attachments.length} attachment(s) → ${outDir}`);
+  return manifest;
+}
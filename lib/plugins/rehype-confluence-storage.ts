@@ -8,18 +8,41 @@
  *  - GFM checkbox <input type="checkbox"> → literal "[ ]"/"[x]"
  *    and strip task-list classes from <ul>/<li>
  *  - Unwrap <a> around a single ac:image child
+ *  - <hN data-authord-shift="d"> → h(N+d), capped at h6 (headingShift)
+ *  - data-authord-anchors → anchor macros; <a data-authord-anchor> →
+ *    <ac:link ac:anchor> (marked by remark-topic-links)
+ *  - <pre><code class="language-x"> and Writerside <code-block lang> →
+ *    code macro (CDATA body, language mapped to Confluence names,
+ *    Writerside title/collapsible/lineNumbers)
+ *  - Tables: Writerside <table style="header-row|header-column|both|none">
+ *    → <th> header row/column + <colgroup> widths; GFM/HTML align →
+ *    text-align style. Writerside <list type> → <ul>/<ol>
  *  - <del> → <span style="text-decoration:line-through;">
+ *  - Writerside {collapsible="true"} headings → expand macro around their
+ *    section (heading text as title), unless default-state="expanded"
+ *  - Admonitions → info/note/warning/tip macros: blockquotes starting
+ *    with **Info:** / **Note:** / **Tip:** / **Warning:** / **Error:**
+ *    (label removed) or carrying a Writerside {style="…"} suffix
+ *  - Writerside <procedure title id> → anchor + bold title + <ol> of its
+ *    <step>s (<ul> for type="choices")
+ *  - Writerside <tabs> (remark-writerside-tabs) → an expand macro per
+ *    tab, or a titled panel macro per tab (tabs: 'panel')
+ *  - Writerside <seealso> → "See also" heading + a list per c.list
+ *    category (categories option)
+ *  - Writerside semantic inline tags → strong/em/code (<control>,
+ *    <shortcut>, <path>, …); any other unknown tag is unwrapped after
+ *    the walk so its text is kept
  *  - Normalize props to XML-safe values (booleans, arrays), keep className tokenized
  *  - Force HTML void elements to self-close
  *  - Wrap once with Confluence namespaces
  *  - Inject a TOC macro (once) at the top (configurable)
  *********************************************************************/
 
-import type { Root as HtmlRoot, Element, Properties } from "npm:@types/hast@^3";;
-import * as fs from 'node:fs';
+import type { Root as HtmlRoot, Element, Properties, Text } from "npm:@types/hast@^3";;
 import * as path from 'node:path';
-import { imageSize } from 'image-size';
-import { IMAGE_DIR } from '../utils/images.ts';
+import { IMAGE_DIR, imageDimensions } from '../utils/images.ts';
+import { dedent } from '../utils/md-source.ts';
+import type { TabStyle } from '../utils/types.ts';
 
 const HTML_VOID = new Set([
   'area','base','br','col','embed','hr','img','input','keygen','link','meta','param','source','track','wbr'
@@ -34,6 +57,18 @@ export interface RehypeConfluenceStorageOptions {
   tocMacroId?: string;
   /** Max heading level (default 3) */
   tocMaxLevel?: number;
+  /**
+   * Demote headings marked with data-authord-shift (a topic's TOC depth when
+   * flattening) by that many levels, capped at h6 (default true)
+   */
+  headingShift?: boolean;
+  /**
+   * Writerside <tabs>: 'expand' (default) → one expand macro per tab,
+   * 'panel' → one panel macro per tab, titled with the tab title
+   */
+  tabs?: TabStyle;
+  /** c.list categories (id → name, in order) for <seealso> groups; unknown refs are titled with the ref */
+  categories?: Map<string, string>;
 }
 
 /* ───────────────────────── helpers ───────────────────────── */
@@ -70,8 +105,14 @@ function readSizeFromStyle(style: unknown): { w?: string; h?: string } {
   return { w, h };
 }
 
-/** Build <ac:image> element from img src + optional dims, with original size if available */
-function makeAcImageFromSrc(src: string, width?: string | number, height?: string | number, style?: unknown): Element {
+/** Build <ac:image> element from img src + optional dims/alt/border, with original size if available */
+function makeAcImageFromSrc(
+  src: string,
+  width?: string | number,
+  height?: string | number,
+  style?: unknown,
+  extra: { alt?: string; border?: boolean } = {},
+): Element {
   const file = path.basename(String(src).split(/[?#]/)[0]);
   const props: Properties = {};
 
@@ -83,13 +124,13 @@ function makeAcImageFromSrc(src: string, width?: string | number, height?: strin
   if (wStr && /^\d+$/.test(wStr)) props['ac:width'] = wStr;
   if (hStr && /^\d+$/.test(hStr)) props['ac:height'] = hStr;
   if (props['ac:width'] || props['ac:height']) props['ac:thumbnail'] = 'true';
+  if (extra.alt) props['ac:alt'] = extra.alt;
+  if (extra.border) props['ac:border'] = 'true';
 
-  try {
-    const { width: ow = 0, height: oh = 0 } =
-      imageSize(fs.readFileSync(path.join(IMAGE_DIR, file)) as any) as any;
-    if (ow) (props as any)['ac:original-width'] = String(ow);
-    if (oh) (props as any)['ac:original-height'] = String(oh);
-  } catch { /* ignore if file not found locally */ }
+  // Original size when the file is available locally (SVGs: root width/height or viewBox)
+  const { width: ow, height: oh } = imageDimensions(path.join(IMAGE_DIR, file));
+  if (ow) props['ac:original-width'] = String(ow);
+  if (oh) props['ac:original-height'] = String(oh);
 
   return {
     type: 'element',
@@ -107,6 +148,432 @@ function makeAcImageFromSrc(src: string, width?: string | number, height?: strin
   };
 }
 
+/** Anchor macro: <ac:structured-macro ac:name="anchor"><ac:parameter ac:name="">id</…></…> */
+function buildAnchorMacro(id: string): Element {
+  return {
+    type: 'element',
+    tagName: 'ac:structured-macro',
+    properties: { 'ac:name': 'anchor', 'ac:schema-version': '1' },
+    children: [{
+      type: 'element',
+      tagName: 'ac:parameter',
+      properties: { 'ac:name': '' },
+      children: [{ type: 'text', value: id }],
+    }],
+  };
+}
+
+/** In-page link: <ac:link ac:anchor="id"><ac:link-body>…</ac:link-body></ac:link> */
+function buildAnchorLink(anchor: string, children: Element['children']): Element {
+  return {
+    type: 'element',
+    tagName: 'ac:link',
+    properties: { 'ac:anchor': anchor },
+    children: [{ type: 'element', tagName: 'ac:link-body', properties: {}, children }],
+  };
+}
+
+/* ───────────── code macro ───────────── */
+
+type HastNode = HtmlRoot['children'][number] | undefined;
+
+const isElement = (n: HastNode, tag?: string): n is Element =>
+  n?.type === 'element' && (!tag || n.tagName === tag);
+const isText = (n: HastNode): n is Text => n?.type === 'text';
+const isBlank = (n: HastNode) => isText(n) && !n.value.trim();
+
+/** Fence language → Confluence Server/DC code macro language ('text' when unknown) */
+const CODE_LANGUAGES: Record<string, string> = {
+  actionscript: 'actionscript3', as3: 'actionscript3', actionscript3: 'actionscript3',
+  applescript: 'applescript',
+  bash: 'bash', sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash', shellscript: 'bash',
+  'c#': 'c#', cs: 'c#', csharp: 'c#',
+  c: 'cpp', cpp: 'cpp', 'c++': 'cpp', cc: 'cpp', h: 'cpp', hpp: 'cpp',
+  css: 'css',
+  cfm: 'coldfusion', coldfusion: 'coldfusion',
+  delphi: 'delphi', pascal: 'delphi',
+  diff: 'diff', patch: 'diff',
+  erl: 'erl', erlang: 'erl',
+  groovy: 'groovy', gradle: 'groovy',
+  html: 'xml', xml: 'xml', xhtml: 'xml', svg: 'xml',
+  java: 'java',
+  javafx: 'jfx', jfx: 'jfx',
+  js: 'js', javascript: 'js', jsx: 'js', ts: 'js', typescript: 'js', tsx: 'js', json: 'js',
+  perl: 'perl', pl: 'perl',
+  php: 'php',
+  powershell: 'powershell', ps: 'powershell', ps1: 'powershell',
+  py: 'py', python: 'py',
+  rb: 'ruby', ruby: 'ruby',
+  sass: 'sass', scss: 'sass',
+  scala: 'scala',
+  sql: 'sql',
+  vb: 'vb', vbnet: 'vb',
+  yaml: 'yml', yml: 'yml',
+};
+
+const textContent = (n: HastNode): string =>
+  isText(n) ? n.value : isElement(n) ? n.children.map(c => textContent(c as HastNode)).join('') : '';
+
+const element = (tagName: string, children: Element['children']): Element =>
+  ({ type: 'element', tagName, properties: {}, children });
+
+function buildMacroParameter(name: string, value: string): Element {
+  return {
+    type: 'element',
+    tagName: 'ac:parameter',
+    properties: { 'ac:name': name },
+    children: [{ type: 'text', value }],
+  };
+}
+
+/** Code macro for `body`; `attrs` are Writerside code block attributes (title, collapsible, lineNumbers, …). */
+function codeMacro(lang: string | undefined, attrs: Record<string, string>, body: string): Element {
+  const flag = (...keys: string[]) => keys.some(k => attrs[k] === 'true');
+
+  const params: Element[] = [buildMacroParameter('language', (lang && CODE_LANGUAGES[lang]) || 'text')];
+  const title = attrs.title ?? attrs['collapsed-title'];
+  if (title) params.push(buildMacroParameter('title', title));
+  if (flag('collapsible') && attrs['default-state'] !== 'expanded') params.push(buildMacroParameter('collapse', 'true'));
+  if (flag('lineNumbers', 'linenumbers', 'line-numbers')) params.push(buildMacroParameter('linenumbers', 'true'));
+
+  const cdata = { type: 'raw', value: `<![CDATA[${body.replace(/]]>/g, ']]]]><![CDATA[>')}]]>` };
+  return {
+    type: 'element',
+    tagName: 'ac:structured-macro',
+    properties: { 'ac:name': 'code', 'ac:schema-version': '1' },
+    children: [
+      ...params,
+      { type: 'element', tagName: 'ac:plain-text-body', properties: {}, children: [cdata as unknown as Text] },
+    ],
+  };
+}
+
+/** <pre><code class="language-x" data-authord-attrs> → code macro; undefined when not a code block. */
+function buildCodeMacro(pre: Element): Element | undefined {
+  const kids = pre.children.filter(c => !isBlank(c as HastNode));
+  const code = kids[0] as HastNode;
+  if (kids.length !== 1 || !isElement(code, 'code')) return undefined;
+
+  const props = (code.properties || {}) as Record<string, unknown>;
+  const classes = getClassList(props);
+  const lang = classes.find(c => c.startsWith('language-'))?.slice('language-'.length).toLowerCase();
+  const attrs: Record<string, string> = typeof props.dataAuthordAttrs === 'string' ? JSON.parse(props.dataAuthordAttrs) : {};
+  const macro = codeMacro(lang, attrs, textContent(code).replace(/\n$/, ''));
+
+  // Diagram that failed to render (remark-confluence-media): show the source inside a warning panel
+  const error = props.dataAuthordDiagramError;
+  if (typeof error !== 'string') return macro;
+  return buildPanelMacro('warning', [element('p', [{ type: 'text', value: error }]), macro],
+    [buildMacroParameter('title', 'Diagram not rendered')]);
+}
+
+/** Writerside <code-block lang="…"> (outside tabs, e.g. in table cells) → code macro. */
+function buildCodeBlockMacro(block: Element): Element {
+  const props = block.properties || {};
+  const attrs: Record<string, string> = {};
+  for (const [k, v] of Object.entries(props)) if (typeof v === 'string') attrs[k] = v;
+  const lang = String(props.lang ?? '').trim().split(/\s+/)[0].toLowerCase();
+  return codeMacro(lang, attrs, dedent(textContent(block)));
+}
+
+/* ───────────── tables & lists ───────────── */
+
+/** Writerside <list type> → CSS list-style-type (bullet / decimal need none) */
+const LIST_MARKERS: Record<string, string> = {
+  'alpha-lower': 'lower-alpha',
+  'alpha-upper': 'upper-alpha',
+  'roman-lower': 'lower-roman',
+  'roman-upper': 'upper-roman',
+  none: 'none',
+};
+
+const WRITERSIDE_TABLE_STYLES = new Set(['header-row', 'header-column', 'both', 'none']);
+
+/** Rows of a table, in order, whether inside thead/tbody/tfoot or not. */
+function tableRows(table: Element): Element[] {
+  const rows = (parent: Element) => parent.children.filter(c => isElement(c, 'tr')) as Element[];
+  return table.children.flatMap(c => {
+    if (!isElement(c)) return [];
+    if (/^t(head|body|foot)$/.test(c.tagName)) return rows(c);
+    return c.tagName === 'tr' ? [c] : [];
+  });
+}
+
+const rowCells = (tr: Element) => tr.children.filter(c => isElement(c, 'td') || isElement(c, 'th')) as Element[];
+
+/**
+ * Writerside <table style="header-row|header-column|both|none"> (header-row when
+ * unset) built from <td> only → <th> for the header row and/or column, and a
+ * <colgroup> from the first row's `width` attributes. Tables that already have
+ * <th> cells (GFM, HTML) keep their headers.
+ */
+function convertWritersideTable(table: Element) {
+  const props = table.properties || {};
+  const style = typeof props.style === 'string' ? props.style.trim() : '';
+  const rows  = tableRows(table);
+  if ((style && !WRITERSIDE_TABLE_STYLES.has(style)) || !rows.length) return;
+  if (rows.some(r => rowCells(r).some(c => c.tagName === 'th'))) return;
+  delete props.style;
+
+  const mode = style || 'header-row';
+  if (mode === 'header-row' || mode === 'both') rowCells(rows[0]).forEach(c => { c.tagName = 'th'; });
+  if (mode === 'header-column' || mode === 'both') rows.forEach(r => { const c = rowCells(r)[0]; if (c) c.tagName = 'th'; });
+
+  const widths = rowCells(rows[0]).map(c => {
+    const w = String(c.properties?.width ?? '').trim();
+    delete c.properties.width;
+    return /^\d+$/.test(w) ? `${w}px` : /^\d+(\.\d+)?(%|px)$/.test(w) ? w : '';
+  });
+  if (widths.some(Boolean)) {
+    table.children.unshift(element('colgroup', widths.map(w => ({
+      type: 'element', tagName: 'col', properties: w ? { style: `width: ${w};` } : {}, children: [],
+    }))));
+  }
+}
+
+/* ───────────── admonitions ───────────── */
+
+/** Markdown label / Writerside style → Confluence panel macro */
+const ADMONITION_MACROS: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  tip: 'tip',
+  warning: 'warning',
+  error: 'warning',
+};
+
+const STYLE_SUFFIX_RE = /\{[^{}]*\bstyle\s*=\s*"([a-z]+)"[^{}]*\}\s*$/;
+
+/** Strip a leading <strong>Label:</strong> from the first paragraph; returns the label. */
+function takeAdmonitionLabel(quote: Element): string | undefined {
+  const p = quote.children.find(c => !isBlank(c));
+  if (!isElement(p, 'p')) return undefined;
+  const i = p.children.findIndex(c => !isBlank(c));
+  const strong = p.children[i];
+  if (!isElement(strong, 'strong') || strong.children.length !== 1) return undefined;
+  const only = strong.children[0];
+  const m = isText(only) ? /^\s*(\w+)\s*:\s*$/.exec(only.value) : null;
+  const label = m?.[1].toLowerCase();
+  if (!label || !ADMONITION_MACROS[label]) return undefined;
+
+  p.children.splice(0, i + 1);
+  const next = p.children[0];
+  if (isText(next)) next.value = next.value.replace(/^\s+/, '');
+  if (p.children.every(isBlank)) quote.children.splice(quote.children.indexOf(p), 1);
+  return label;
+}
+
+/**
+ * Writerside `{style="note"}` after a blockquote: either a lazy continuation line
+ * at the end of its last paragraph, or the next paragraph. Removed when found.
+ */
+function takeStyleSuffix(quote: Element, parent: { children: HastNode[] }, index: number): string | undefined {
+  const lastP = [...quote.children].reverse().find(c => !isBlank(c));
+  const lastText = isElement(lastP, 'p') ? lastP.children[lastP.children.length - 1] : undefined;
+  if (isText(lastText)) {
+    const m = STYLE_SUFFIX_RE.exec(lastText.value);
+    if (m) {
+      lastText.value = lastText.value.slice(0, m.index).replace(/\s+$/, '');
+      return m[1];
+    }
+  }
+
+  let j = index + 1;
+  while (isBlank(parent.children[j])) j++;
+  const sib = parent.children[j];
+  const only = isElement(sib, 'p') && sib.children.length === 1 ? sib.children[0] : undefined;
+  const m = isText(only) ? /^\s*\{[^{}]*\bstyle\s*=\s*"([a-z]+)"[^{}]*\}\s*$/.exec(only.value) : null;
+  if (m) {
+    parent.children.splice(index + 1, j - index);
+    return m[1];
+  }
+  return undefined;
+}
+
+function buildPanelMacro(name: string, children: Element['children'], params: Element[] = []): Element {
+  return {
+    type: 'element',
+    tagName: 'ac:structured-macro',
+    properties: { 'ac:name': name, 'ac:schema-version': '1' },
+    children: [...params, { type: 'element', tagName: 'ac:rich-text-body', properties: {}, children }],
+  };
+}
+
+const buildExpandMacro = (title: string, children: Element['children']) =>
+  buildPanelMacro('expand', children, [buildMacroParameter('title', title)]);
+
+/* ───────────── procedures ───────────── */
+
+/** Leading/trailing whitespace-only text removed (XML indentation inside <step>). */
+function trimBlank(children: Element['children']): Element['children'] {
+  let start = 0;
+  let end = children.length;
+  while (start < end && isBlank(children[start])) start++;
+  while (end > start && isBlank(children[end - 1])) end--;
+  return children.slice(start, end);
+}
+
+/**
+ * <procedure title="…" id="…" type="…"> → [title paragraph (with the id as
+ * anchor), list of steps]. Other content between steps is kept in place.
+ */
+function buildProcedure(proc: Element): Element['children'] {
+  const props = proc.properties || {};
+  const title = typeof props.title === 'string' ? props.title : '';
+  const id    = typeof props.id === 'string' ? props.id : '';
+  const listTag = props.type === 'choices' ? 'ul' : 'ol';
+
+  const out: Element['children'] = [];
+  if (title || id) {
+    const head: Element['children'] = id ? [buildAnchorMacro(id)] : [];
+    if (title) head.push(element('strong', [{ type: 'text', value: title }]));
+    out.push(element('p', head));
+  }
+
+  let list: Element | undefined;
+  for (const child of proc.children) {
+    if (isBlank(child)) continue;
+    if (isElement(child, 'step')) {
+      if (!list) out.push(list = element(listTag, []));
+      list.children.push(element('li', trimBlank(child.children)));
+      continue;
+    }
+    list = undefined;
+    out.push(isText(child) ? element('p', [child]) : child);
+  }
+  return out;
+}
+
+/* ───────────── tabs ───────────── */
+
+/** <div data-authord-tabs> of <div data-authord-tab="title"> (remark-writerside-tabs) → one macro per tab. */
+function buildTabs(tabs: Element, style: TabStyle): Element[] {
+  return tabs.children
+    .filter((c): c is Element => isElement(c) && c.properties?.dataAuthordTab !== undefined)
+    .map(tab => {
+      const title = String(tab.properties.dataAuthordTab);
+      const body  = trimBlank(tab.children);
+      return style === 'panel'
+        ? buildPanelMacro('panel', body, [buildMacroParameter('title', title)])
+        : buildExpandMacro(title, body);
+    });
+}
+
+/* ───────────── see also ───────────── */
+
+/**
+ * <seealso><category ref="…"><a>…</a>…</category></seealso> → "See also"
+ * heading + one titled list of links per category, in c.list order
+ * (unknown refs after the known ones, in document order).
+ */
+function buildSeeAlso(seealso: Element, categories: Map<string, string>): Element[] {
+  const groups = new Map<string, Element['children']>();
+  const add = (ref: string, nodes: Element['children']) => {
+    const items = nodes.filter(c => !isBlank(c)).map(c => element('li', [isText(c) ? { type: 'text', value: c.value.trim() } : c]));
+    if (items.length) groups.set(ref, [...(groups.get(ref) ?? []), ...items]);
+  };
+  for (const child of seealso.children) {
+    if (isElement(child, 'category')) add(String(child.properties?.ref ?? ''), child.children);
+    else add('', [child]);
+  }
+
+  const known = [...categories.keys()];
+  const rank  = (ref: string) => known.includes(ref) ? known.indexOf(ref) : known.length;
+  const out: Element[] = [element('h2', [{ type: 'text', value: 'See also' }])];
+  for (const ref of [...groups.keys()].sort((a, b) => rank(a) - rank(b))) {
+    const title = categories.get(ref) ?? ref;
+    if (title) out.push(element('p', [element('strong', [{ type: 'text', value: title }])]));
+    out.push(element('ul', groups.get(ref)!));
+  }
+  return out;
+}
+
+/* ───────────── semantic inline tags ───────────── */
+
+/**
+ * Writerside semantic markup → storage tag. <code> is already HTML; <tooltip term>
+ * has no storage equivalent and is unwrapped like other unknown tags.
+ */
+const SEMANTIC_TAGS: Record<string, string> = {
+  control: 'strong',
+  'ui-path': 'strong',
+  menupath: 'strong',
+  emphasis: 'em',
+  shortcut: 'code',
+  path: 'code',
+};
+
+/** Tags Confluence storage keeps; anything else (without a namespace prefix) is unwrapped. */
+const STORAGE_TAGS = new Set([
+  'a', 'abbr', 'address', 'b', 'big', 'blockquote', 'br', 'caption', 'center', 'cite', 'code', 'col', 'colgroup',
+  'dd', 'del', 'dfn', 'div', 'dl', 'dt', 'em', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins',
+  'kbd', 'li', 'ol', 'p', 'pre', 'q', 's', 'samp', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'tt', 'u', 'ul', 'var',
+]);
+
+/** Unknown tags whose content is code or markup, not text: dropped with their content. */
+const DROPPED_TAGS = new Set(['script', 'style', 'noscript', 'template']);
+
+/** Replace unknown elements by their children (recursively), so their text survives. */
+function unwrapUnknown(children: Element['children']): Element['children'] {
+  return children.flatMap(c => {
+    if (!isElement(c)) return [c];
+    if (DROPPED_TAGS.has(c.tagName)) return [];
+    c.children = unwrapUnknown(c.children);
+    return c.tagName.includes(':') || STORAGE_TAGS.has(c.tagName) ? [c] : c.children;
+  });
+}
+
+/* ───────────── collapsible sections ───────────── */
+
+const headingLevel = (n: HastNode) =>
+  isElement(n) && /^h[1-6]$/.test(n.tagName) ? Number(n.tagName[1]) : 0;
+
+const isAnchorMacro = (n: HastNode) =>
+  isElement(n, 'ac:structured-macro') && n.properties?.['ac:name'] === 'anchor';
+
+/** Attributes from remark-writerside-attributes; the data prop is removed. */
+function takeAttrs(el: Element): Record<string, string> {
+  const raw = el.properties?.dataAuthordAttrs;
+  if (raw === undefined) return {};
+  delete el.properties.dataAuthordAttrs;
+  return typeof raw === 'string' ? JSON.parse(raw) : {};
+}
+
+/**
+ * Wrap each collapsible heading's section (up to the next heading of the same
+ * or a higher level) in an expand macro titled with the heading text. Anchor
+ * macros of the heading move into the body. Runs after the main walk, so
+ * heading levels are final.
+ */
+function wrapCollapsibleSections(children: Element['children']): Element['children'] {
+  const out: Element['children'] = [];
+  for (let i = 0; i < children.length; i++) {
+    const node = children[i] as HastNode;
+    if (isElement(node) && !headingLevel(node)) node.children = wrapCollapsibleSections(node.children);
+
+    const level = headingLevel(node);
+    const attrs = level ? takeAttrs(node as Element) : {};
+    if (!level || attrs.collapsible !== 'true' || attrs['default-state'] === 'expanded') {
+      out.push(children[i]);
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < children.length && !(headingLevel(children[end] as HastNode) && headingLevel(children[end] as HastNode) <= level)) end++;
+
+    const heading = node as Element;
+    const anchors = heading.children.filter(c => isAnchorMacro(c as HastNode));
+    const title   = heading.children.filter(c => !isAnchorMacro(c as HastNode))
+      .map(c => textContent(c as HastNode)).join('').trim();
+    const body    = wrapCollapsibleSections(children.slice(i + 1, end));
+
+    out.push(buildExpandMacro(title, [...anchors, ...body]));
+    i = end - 1;
+  }
+  return out;
+}
+
 function hasTocMacroAnywhere(node: any): boolean {
   let found = false;
   (function scan(n: any) {
@@ -145,6 +612,9 @@ export function rehypeConfluenceStorage(opts: RehypeConfluenceStorageOptions = {
   const tocPos = opts.tocPosition ?? 'top';
   const tocMacroId = opts.tocMacroId ?? 'a854a720-dea6-4d0f-a0a2-e4591c07d85e';
   const tocMaxLevel = Number.isFinite(opts.tocMaxLevel) ? Number(opts.tocMaxLevel) : 3;
+  const headingShift = opts.headingShift !== false; // default true
+  const tabStyle = opts.tabs ?? 'expand';
+  const categories = opts.categories ?? new Map<string, string>();
 
   return function transformer(tree: HtmlRoot) {
     function walk(node: any, parent?: any, index?: number) {
@@ -170,15 +640,74 @@ export function rehypeConfluenceStorage(opts: RehypeConfluenceStorageOptions = {
       /* 3) <img> (MD & raw HTML) → <ac:image> */
       if (el.tagName === 'img' && parent && typeof index === 'number') {
         const src = props.src ?? '';
-        parent.children[index] = makeAcImageFromSrc(src, props.width, props.height, props.style);
+        parent.children[index] = makeAcImageFromSrc(src, props.width, props.height, props.style, {
+          alt: props.alt,
+          border: !!props.dataAuthordBorder,   // raw-HTML border-effect (remark-confluence-media)
+        });
+        return;
+      }
+
+      /* 3b) Topic headings: demote by TOC depth */
+      if ('dataAuthordShift' in props) {
+        const level = Number(el.tagName.slice(1));
+        const shift = headingShift ? Number(props.dataAuthordShift) || 0 : 0;
+        if (/^h[1-6]$/.test(el.tagName)) el.tagName = `h${Math.min(6, level + shift)}`;
+        delete props.dataAuthordShift;
+      }
+
+      /* 3c) Fenced code / Writerside <code-block> → code macro (its body is raw CDATA, nothing to recurse into) */
+      if (el.tagName === 'pre' && parent && typeof index === 'number') {
+        const macro = buildCodeMacro(el);
+        if (macro) {
+          parent.children[index] = macro;
+          return;
+        }
+      }
+      if (el.tagName === 'code-block' && parent && typeof index === 'number') {
+        parent.children[index] = buildCodeBlockMacro(el);
         return;
       }
 
+      /* 3d) Writerside semantic inline tags → strong/em/code (<shortcut key="…"/> shows its key) */
+      const semantic = SEMANTIC_TAGS[el.tagName];
+      if (semantic) {
+        if (!el.children.length && typeof props.key === 'string') el.children = [{ type: 'text', value: props.key }];
+        el.tagName = semantic;
+        el.properties = {};
+      }
+
+      /* 3e) Tables: Writerside header row/column + widths; alignment → text-align style; drop layout whitespace */
+      if (el.tagName === 'table') convertWritersideTable(el);
+      if (/^(table|thead|tbody|tfoot|tr|colgroup)$/.test(el.tagName)) el.children = el.children.filter(c => !isBlank(c));
+      if ((el.tagName === 'td' || el.tagName === 'th') && typeof props.align === 'string') {
+        const style = String(props.style ?? '').replace(/;?\s*$/, '');
+        props.style = `${style ? `${style}; ` : ''}text-align: ${props.align};`;
+        delete props.align;
+      }
+
+      /* 3f) Writerside <list type="…"> → <ol> (numbered types) or <ul> */
+      if (el.tagName === 'list') {
+        const marker = LIST_MARKERS[String(props.type ?? 'bullet')];
+        el.tagName = props.type === 'decimal' || (marker && marker !== 'none') ? 'ol' : 'ul';
+        el.properties = marker ? { style: `list-style-type: ${marker};` } : {};
+      }
+
       /* 4) Recurse exactly once */
       if (Array.isArray(el.children)) {
         for (let i = 0; i < el.children.length; i++) walk(el.children[i], el, i);
       }
 
+      /* 4b) Anchor targets / in-page anchor links (built after recursion, so step 8 leaves them alone) */
+      if (props.dataAuthordAnchors) {
+        const ids = String(props.dataAuthordAnchors).split(/\s+/).filter(Boolean);
+        delete props.dataAuthordAnchors;
+        el.children = [...ids.map(buildAnchorMacro), ...el.children];
+      }
+      if (el.tagName === 'a' && props.dataAuthordAnchor && parent && typeof index === 'number') {
+        parent.children[index] = buildAnchorLink(String(props.dataAuthordAnchor), el.children);
+        return;
+      }
+
       /* 5) Unwrap <a> around a single <ac:image> child */
       if (el.tagName === 'a' && parent && typeof index === 'number' && el.children.length === 1) {
         const only = el.children[0] as any;
@@ -188,6 +717,36 @@ export function rehypeConfluenceStorage(opts: RehypeConfluenceStorageOptions = {
         }
       }
 
+      /* 5b) Admonition blockquotes → panel macros */
+      if (el.tagName === 'blockquote' && parent && typeof index === 'number') {
+        const style = takeStyleSuffix(el, parent, index);
+        const label = takeAdmonitionLabel(el);
+        const kind  = style ?? label;   // an explicit Writerside style wins over the label
+        const macro = kind ? ADMONITION_MACROS[kind] : undefined;
+        if (macro) {
+          parent.children[index] = buildPanelMacro(macro, el.children);
+          return;
+        }
+      }
+
+      /* 5c) Writerside procedures → title + numbered (or bulleted) steps */
+      if (el.tagName === 'procedure' && parent && typeof index === 'number') {
+        parent.children.splice(index, 1, ...buildProcedure(el));
+        return;
+      }
+
+      /* 5d) Writerside tabs (children already converted) → expand or panel macros */
+      if (props.dataAuthordTabs && parent && typeof index === 'number') {
+        parent.children.splice(index, 1, ...buildTabs(el, tabStyle));
+        return;
+      }
+
+      /* 5e) Writerside <seealso> → "See also" + a titled link list per category */
+      if (el.tagName === 'seealso' && parent && typeof index === 'number') {
+        parent.children.splice(index, 1, ...buildSeeAlso(el, categories));
+        return;
+      }
+
       /* 6) <del> → <span style="text-decoration:line-through;"> */
       if (el.tagName === 'del') {
         el.tagName = 'span';
@@ -222,6 +781,8 @@ export function rehypeConfluenceStorage(opts: RehypeConfluenceStorageOptions = {
 
     // Single top-level pass over current children
     for (let i = 0; i < tree.children.length; i++) walk(tree.children[i], tree, i);
+    tree.children = unwrapUnknown(tree.children as Element['children']) as HtmlRoot['children'];
+    tree.children = wrapCollapsibleSections(tree.children as Element['children']) as HtmlRoot['children'];
 
     // Optionally add a TOC macro once (avoid duplicates)
     const shouldAddToc = insertToc && !hasTocMacroAnywhere(tree);
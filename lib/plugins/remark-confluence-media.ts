@@ -1,48 +1,68 @@
 /**********************************************************************
  * plugins/remark-confluence-media.ts
  * Single-pass MDAST transform — no placeholders, minimal regex:
- *  - ```mermaid``` → render → paragraph(image)
+ *  - ```mermaid``` / plantuml / dot / d2 → render (utils/diagrams.ts) → paragraph(image);
+ *    failures are reported via onDiagramError and the block is kept
  *  - Markdown images → consume trailing {width=..;height=..} (manual scan)
- *  - Raw HTML is left alone (rehype-raw will turn it into HAST)
+ *  - Raw HTML: CDATA → escaped text; <img> attributes normalized (px sizes,
+ *    border-effect → data-authord-border); self-closing XML tags
+ *    (<shortcut key="…"/>) → open + close pair, which the HTML parser in
+ *    rehype-raw would otherwise leave open
  *********************************************************************/
 
 import type { Root as MdRoot, Code, Image as MdImage, Paragraph } from 'mdast';
 import type { Parent, Node } from "npm:@types/unist@^3";
-import * as fs from 'node:fs';
-import * as fsp from 'node:fs/promises';
 import * as path from 'node:path';
-import { renderMermaidDefinitionToFile } from '../utils/mermaid.ts';
-import { IMAGE_DIR, hashString, isPngFileOK } from '../utils/images.ts';
-import process from "node:process";
+import { diagramRenderer, renderDiagram } from '../utils/diagrams.ts';
+import type { DiagramFormat } from '../utils/types.ts';
 
 
-function htmlImgToAttachStubs(s: string): string {
+/**
+ * `<img>` in raw HTML → `<img>` with only what rehypeConfluenceStorage needs
+ * for <ac:image>: src, numeric width/height, alt and data-authord-border.
+ */
+function normalizeHtmlImgs(s: string): string {
   // Minimal attribute picker (no heavy regex backtracking)
-  return s.replace(/<img\b([^>]*?)\/?>/gi, (full, attrs) => {
-    let src = '';
-    let width: string | undefined;
-
-    // scan attributes without nested regexps
-    const A = attrs;
-    // src=
-    let m = /(?:\s|^)src\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/i.exec(A);
-    if (m) src = (m[2] ?? m[3] ?? m[4] ?? '').trim();
-
-    // width=
-    m = /(?:\s|^)width\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/i.exec(A);
-    if (m) {
-      const raw = (m[2] ?? m[3] ?? m[4] ?? '').trim().replace(/px$/i, '');
-      if (/^\d+$/.test(raw)) width = raw;
-    }
-
+  return s.replace(/<img\b([^>]*?)\/?>/gi, (full, attrs: string) => {
+    const pick = (name: string) => {
+      const m = new RegExp(`(?:\\s|^)${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i').exec(attrs);
+      return m ? (m[2] ?? m[3] ?? m[4] ?? '').trim() : undefined;
+    };
+    const px = (v?: string) => {
+      const raw = v?.replace(/px$/i, '');
+      return raw && /^\d+$/.test(raw) ? raw : undefined;
+    };
+    const attr = (name: string, value: string) => ` ${name}="${value.replace(/"/g, '&quot;')}"`;
+
+    const src = pick('src') ?? '';
     if (!src) return full; // keep as-is if no src
 
-    const file = path.basename(src.split(/[?#]/)[0]);
-    const params = width ? `|width=${width}` : '';
-    return `@@ATTACH|file=${file}${params}@@`;
+    const width  = px(pick('width'));
+    const height = px(pick('height'));
+    const alt    = pick('alt');
+    const border = pick('border-effect');
+    return '<img' + attr('src', src.split(/[?#]/)[0]) +
+      (width ? attr('width', width) : '') +
+      (height ? attr('height', height) : '') +
+      (alt ? attr('alt', alt) : '') +
+      (border && border !== 'none' ? attr('data-authord-border', border) : '') + '/>';
   });
 }
 
+const HTML_VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/** `<tag a="b"/>` → `<tag a="b"></tag>` for non-void tags. */
+function expandSelfClosingTags(s: string): string {
+  return s.replace(/<([A-Za-z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)\s*\/>/g, (full, tag: string, attrs: string) =>
+    HTML_VOID_TAGS.has(tag.toLowerCase()) ? full : `<${tag}${attrs}></${tag}>`);
+}
+
+/** `<![CDATA[…]]>` (e.g. a <code-block> sample) → escaped text; the HTML parser would end it at the first `>`. */
+function cdataToText(s: string): string {
+  return s.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'));
+}
+
 /** Consume one or more leading `{...}` groups from the next text sibling; return width/height map. */
 function takeParamHintsAfter(parent: Parent, idx: number): { width?: string; height?: string } {
   const kids: any[] = (parent as any).children ?? [];
@@ -119,7 +139,14 @@ function setImageDims(img: MdImage, dims: { width?: string; height?: string }) {
   if (dims.height) hp.height = dims.height;
 }
 
-export function remarkConfluenceMedia() {
+export interface RemarkConfluenceMediaOptions {
+  /** Diagram image format (default 'png'); 'svg' falls back to PNG per diagram */
+  format?: DiagramFormat;
+  /** Called for each diagram that could not be rendered (it stays a code block). */
+  onDiagramError?: (message: string, node: Code) => void;
+}
+
+export function remarkConfluenceMedia(options: RemarkConfluenceMediaOptions = {}) {
   return async function transformer(tree: MdRoot) {
     const tasks: Promise<void>[] = [];
 
@@ -127,38 +154,18 @@ export function remarkConfluenceMedia() {
       switch (node.type) {
         case 'code': {
           const code = node as Code;
-          if (code.lang === 'mermaid' && parent && typeof index === 'number') {
+          const renderer = diagramRenderer(code.lang);
+          if (renderer && parent && typeof index === 'number') {
             tasks.push((async () => {
-              const def = (code.value || '').trim();
-              const out = path.join(IMAGE_DIR, `${hashString('mermaid::' + def)}.png`);
-              let png: string | null = null;
-
-              if (fs.existsSync(out) && isPngFileOK(out)) {
-                png = out;
-              } else {
-                try {
-                  await renderMermaidDefinitionToFile(def, out, {
-                    width: process.env.MMD_WIDTH ? Number(process.env.MMD_WIDTH) : undefined,
-                    height: process.env.MMD_HEIGHT ? Number(process.env.MMD_HEIGHT) : undefined,
-                    scale: process.env.MMD_SCALE ? Number(process.env.MMD_SCALE) : undefined,
-                    backgroundColor: process.env.MMD_BG,
-                    theme: process.env.MMD_THEME,
-                    configFile: process.env.MMD_CONFIG,
-                    quiet: true,
-                  });
-                  if (!isPngFileOK(out)) throw new Error('bad png');
-                  png = out;
-                } catch {
-                  try { if (fs.existsSync(out)) await fsp.unlink(out); } catch {}
-                  png = null;
-                }
-              }
-
-              if (png) {
-                const fileName = path.basename(png);
-                const img: MdImage = { type: 'image', url: fileName, alt: '' };
-                (parent as any).children[index] = paragraphOfImage(img);
+              const res = await renderDiagram(renderer, code.value || '', options.format);
+              if (!res.ok) {
+                // keep the fenced source; rehypeConfluenceStorage puts it in a warning panel
+                ((code.data ??= {}).hProperties ??= {}).dataAuthordDiagramError = res.error;
+                options.onDiagramError?.(res.error, code);
+                return;
               }
+              const img: MdImage = { type: 'image', url: path.basename(res.file), alt: '' };
+              (parent as any).children[index] = paragraphOfImage(img);
             })());
             return;
           }
@@ -176,11 +183,11 @@ export function remarkConfluenceMedia() {
         }
 
         case 'html': {
-          // node is a raw HTML *string* in MDAST. Replace <img> substrings with stubs.
+          // node is a raw HTML *string* in MDAST. Normalize its <img> tags.
           if (parent && typeof index === 'number') {
             const n: any = node;
             if (typeof n.value === 'string') {
-              n.value = htmlImgToAttachStubs(n.value);
+              n.value = expandSelfClosingTags(normalizeHtmlImgs(cdataToText(n.value)));
             }
           }
           break;
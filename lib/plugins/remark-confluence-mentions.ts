@@ -0,0 +1,78 @@
+/**********************************************************************
+ * plugins/remark-confluence-mentions.ts
+ * @mentions → Confluence user links (MDAST, before the processor runs):
+ *  - `@Display Name` / `@handle` found in utils/users.ts mapping →
+ *    <ac:link><ri:user ri:username|ri:userkey/></ac:link> (raw HTML)
+ *  - the longest mapped name wins; text in links and code is skipped
+ *  - `@word` that matches nothing is reported and left as text
+ * Only runs when a mapping exists, so plain `@` text needs no setup.
+ *********************************************************************/
+
+import type { Html, Root as MdRoot, Text } from 'mdast';
+import type { Node, Parent } from 'npm:@types/unist@^3';
+
+import type { ConfluenceUser, TransformWarning } from '../utils/types.ts';
+
+/** `@` at the start of a word (not e-mail addresses or `a@b`) */
+const MENTION_START_RE = /(^|[^\w@.])@(?=[A-Za-z])/g;
+
+const escapeAttr = (s: string) => s.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+function userLink(user: ConfluenceUser): Html {
+  const attr = user.userkey ? `ri:userkey="${escapeAttr(user.userkey)}"` : `ri:username="${escapeAttr(user.username ?? '')}"`;
+  return { type: 'html', value: `<ac:link><ri:user ${attr}></ri:user></ac:link>` };
+}
+
+/**
+ * Replace mapped mentions in `tree` (a topic at `file`) in place.
+ * Returns one warning per mention that is not in the mapping.
+ */
+export function resolveMentions(tree: MdRoot, file: string, users: Map<string, ConfluenceUser>): TransformWarning[] {
+  // keys are lower-case names without the @ (utils/users.ts)
+  const warnings: TransformWarning[] = [];
+  if (!users.size) return warnings;
+  const names = [...users.keys()].sort((a, b) => b.length - a.length);
+
+  /** Split one text node into text + user links. */
+  function split(node: Text): (Text | Html)[] {
+    const out: (Text | Html)[] = [];
+    const value = node.value;
+    let last = 0;
+    for (const m of value.matchAll(MENTION_START_RE)) {
+      const at = m.index + m[1].length;                 // position of '@'
+      if (at < last) continue;
+      const rest = value.slice(at + 1);
+      const name = names.find(n => rest.toLowerCase().startsWith(n) && !/\w/.test(rest.charAt(n.length)));
+      if (!name) {
+        warnings.push({
+          file,
+          line: node.position?.start.line,
+          message: `Unmapped mention "@${/^[\w.-]*\w/.exec(rest)?.[0]}" (not in users.json); emitted as text`,
+        });
+        continue;
+      }
+      if (at > last) out.push({ type: 'text', value: value.slice(last, at) });
+      out.push(userLink(users.get(name)!));
+      last = at + 1 + name.length;
+    }
+    if (!out.length) return [node];
+    if (last < value.length) out.push({ type: 'text', value: value.slice(last) });
+    return out;
+  }
+
+  (function walk(parent: Parent) {
+    for (let i = 0; i < parent.children.length; i++) {
+      const node = parent.children[i] as Node & { children?: Node[] };
+      if (node.type === 'link' || node.type === 'linkReference') continue;
+      if (node.type === 'text' && (node as Text).value.includes('@')) {
+        const parts = split(node as Text);
+        parent.children.splice(i, 1, ...parts);
+        i += parts.length - 1;
+        continue;
+      }
+      if (Array.isArray(node.children)) walk(node as Parent);
+    }
+  })(tree);
+
+  return warnings;
+}
@@ -0,0 +1,151 @@
+/**********************************************************************
+ * plugins/remark-topic-links.ts
+ * Cross-topic links for the flattened single page (MDAST, before merge):
+ *  - every heading gets an anchor id `<topic>-<slug>`; each topic
+ *    starts with the bare `<topic>` anchor
+ *  - [text](other.md#heading), [text](#heading), [text](other.md) and
+ *    their reference-style forms → marked as in-page anchor links
+ *  - links to topics / headings not on the page are reported and
+ *    reduced to their text
+ * Marks are data-authord-* hProperties; rehypeConfluenceStorage turns
+ * them into anchor macros and <ac:link ac:anchor>.
+ *********************************************************************/
+
+import type { Root as MdRoot, Definition, Heading, Link, LinkReference, Paragraph, PhrasingContent } from 'mdast';
+import type { Node, Parent } from 'npm:@types/unist@^3';
+import * as path from 'node:path';
+import GithubSlugger from 'github-slugger';
+
+import type { TransformWarning } from '../utils/types.ts';
+
+export interface ParsedTopic {
+  /** Absolute path of the topic .md (links are resolved relative to it) */
+  file: string;
+  tree: MdRoot;
+}
+
+const EXTERNAL_RE = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+
+type AnyNode = Node & { value?: unknown; children?: AnyNode[]; data?: { hProperties?: Record<string, unknown> } };
+
+/** Plain text of a node (inline code included), like mdast-util-to-string. */
+function textOf(node: AnyNode): string {
+  if (typeof node.value === 'string') return node.value;
+  return Array.isArray(node.children) ? node.children.map(textOf).join('') : '';
+}
+
+/** Heading text minus a trailing Writerside `{...}` attribute group; explicit id="…"/#… if present. */
+function headingIds(h: Heading): { text: string; explicit?: string } {
+  const raw = textOf(h);
+  const m = /\s*\{([^{}]*)\}\s*$/.exec(raw);
+  if (!m) return { text: raw.trim() };
+  const id = /(?:^|\s)(?:id\s*=\s*"([^"]+)"|#([\w-]+))/.exec(m[1]);
+  return { text: raw.slice(0, m.index).trim(), explicit: id?.[1] ?? id?.[2] };
+}
+
+/** Percent-decode, keeping the raw string when it is not valid encoding (e.g. `50%off.md`). */
+function safeDecode(s: string, decode: (s: string) => string): string {
+  try { return decode(s); } catch { return s; }
+}
+
+function mark(node: AnyNode, prop: string, value: string) {
+  const hp = (node.data ??= {}).hProperties ??= {};
+  hp[prop] = value;
+}
+
+/**
+ * Assign anchors and rewrite links between the given topics in place.
+ * Returns one warning per link that could not be resolved.
+ */
+export function resolveTopicLinks(topics: ParsedTopic[]): TransformWarning[] {
+  const warnings: TransformWarning[] = [];
+  const topicSlugger = new GithubSlugger();
+
+  // Pass 1: anchors per topic (heading slug / explicit id → page-wide anchor id)
+  const byFile = new Map<string, { key: string; anchors: Map<string, string> }>();
+  for (const t of topics) {
+    const key = topicSlugger.slug(path.basename(t.file, '.md')) || 'topic';
+    const anchors = new Map<string, string>();
+    const slugger = new GithubSlugger();
+
+    for (const node of t.tree.children) {
+      if (node.type !== 'heading') continue;
+      const { text, explicit } = headingIds(node);
+      const ids = [slugger.slug(text), explicit].filter((x): x is string => !!x);
+      const own: string[] = [];
+      for (const id of ids) {
+        if (anchors.has(id)) continue;
+        anchors.set(id, `${key}-${id}`);
+        own.push(`${key}-${id}`);
+      }
+      if (own.length) mark(node, 'dataAuthordAnchors', own.join(' '));
+    }
+
+    // Topic anchor: on a leading heading, else on an empty paragraph in front
+    const first = t.tree.children[0];
+    if (first?.type === 'heading') {
+      const own = (first as AnyNode).data?.hProperties?.dataAuthordAnchors;
+      mark(first, 'dataAuthordAnchors', [key, own].filter(Boolean).join(' '));
+    } else {
+      const p: Paragraph = { type: 'paragraph', children: [] };
+      mark(p, 'dataAuthordAnchors', key);
+      t.tree.children.unshift(p);
+    }
+
+    byFile.set(path.resolve(t.file), { key, anchors });
+  }
+
+  // Pass 2: rewrite links
+  for (const t of topics) {
+    const self = byFile.get(path.resolve(t.file))!;
+    const definitions = new Map<string, Definition>();
+    (function collect(n: AnyNode) {
+      if (n.type === 'definition') definitions.set((n as Definition).identifier.toLowerCase(), n as Definition);
+      n.children?.forEach(collect);
+    })(t.tree);
+
+    const resolve = (url: string): string | null | undefined => {
+      if (!url || EXTERNAL_RE.test(url)) return undefined;       // not ours
+      const hash = url.indexOf('#');
+      const file = safeDecode(hash < 0 ? url : url.slice(0, hash), decodeURI);
+      const frag = hash < 0 ? '' : safeDecode(url.slice(hash + 1), decodeURIComponent);
+      if (file && !file.endsWith('.md')) return undefined;       // images, downloads, …
+
+      const target = file ? byFile.get(path.resolve(path.dirname(t.file), file)) : self;
+      if (!target) return null;
+      if (!frag) return target.key;
+      return target.anchors.get(frag) ?? target.anchors.get(new GithubSlugger().slug(frag)) ?? null;
+    };
+
+    (function walk(parent: Parent) {
+      for (let i = 0; i < parent.children.length; i++) {
+        const node = parent.children[i] as AnyNode;
+        if (node.type === 'link' || node.type === 'linkReference') {
+          const url = node.type === 'link'
+            ? (node as Link).url
+            : definitions.get((node as LinkReference).identifier.toLowerCase())?.url ?? '';
+          const anchor = resolve(url);
+          if (anchor === null) {
+            warnings.push({
+              file: t.file,
+              line: node.position?.start.line,
+              message: `Unresolved link "${url}" (no such topic or heading on this page); emitted as text`,
+            });
+            parent.children.splice(i, 1, ...(node.children as PhrasingContent[] ?? []));
+            i--;
+            continue;
+          }
+          if (anchor) {
+            const children = node.children as PhrasingContent[];
+            const link: Link = { type: 'link', url: `#${anchor}`, children, position: node.position };
+            mark(link, 'dataAuthordAnchor', anchor);
+            parent.children[i] = link;
+          }
+        }
+        if (Array.isArray(node.children)) walk(node as Parent);
+      }
+    })(t.tree);
+  }
+
+  return warnings;
+}
@@ -0,0 +1,70 @@
+/**********************************************************************
+ * plugins/remark-writerside-attributes.ts
+ * MDAST transform: Writerside attribute lists written on the line after
+ * a block, e.g.
+ *
+ *   ```kotlin
+ *   …
+ *   ```
+ *   {title="Main.kt" collapsible="true" ignore-vars="true"}
+ *
+ * or at the end of a heading:
+ *
+ *   #### Supplementary info {collapsible="true"}
+ *
+ * The `{…}` text is removed and the attributes are kept on the block
+ * as data-authord-attrs (JSON), for later plugins and for
+ * rehypeConfluenceStorage. Handled blocks: code, heading.
+ *********************************************************************/
+
+import type { Root as MdRoot } from 'mdast';
+import type { Node, Parent } from 'npm:@types/unist@^3';
+
+import { parseAttributeList } from '../utils/md-source.ts';
+
+type AttrNode = Node & { value?: string; children?: AttrNode[]; data?: { hProperties?: Record<string, unknown> } };
+
+const ATTRIBUTED = new Set(['code']);
+
+/** Attributes recorded on a block by remarkWritersideAttributes ({} when none). */
+export function blockAttributes(node: Node): Record<string, string> {
+  const raw = (node as AttrNode).data?.hProperties?.dataAuthordAttrs;
+  return typeof raw === 'string' ? JSON.parse(raw) : {};
+}
+
+function setAttributes(node: AttrNode, attrs: Record<string, string>) {
+  const hp = (node.data ??= {}).hProperties ??= {};
+  hp.dataAuthordAttrs = JSON.stringify({ ...blockAttributes(node), ...attrs });
+}
+
+/** `## Title {key="value"}` → strip the trailing list from the heading text. */
+function takeHeadingAttributes(h: AttrNode) {
+  const last = h.children?.[h.children.length - 1];
+  if (last?.type !== 'text' || !last.value) return;
+  const m = /\s*(\{[^{}]*\})\s*$/.exec(last.value);
+  const attrs = m ? parseAttributeList(m[1]) : null;
+  if (!m || !attrs) return;
+  last.value = last.value.slice(0, m.index);
+  if (!last.value) h.children!.pop();
+  setAttributes(h, attrs);
+}
+
+export function remarkWritersideAttributes() {
+  return function transformer(tree: MdRoot) {
+    (function walk(parent: AttrNode) {
+      const kids = parent.children ?? [];
+      for (let i = 0; i < kids.length; i++) {
+        const node = kids[i];
+        const next = kids[i + 1];
+        const only = next?.type === 'paragraph' && next.children?.length === 1 ? next.children[0] : undefined;
+        const attrs = ATTRIBUTED.has(node.type) && only?.type === 'text' ? parseAttributeList(only.value ?? '') : null;
+        if (attrs) {
+          setAttributes(node, attrs);
+          kids.splice(i + 1, 1);
+        }
+        if (node.type === 'heading') takeHeadingAttributes(node);
+        if (Array.isArray(node.children)) walk(node as Parent as AttrNode);
+      }
+    })(tree as AttrNode);
+  };
+}
@@ -0,0 +1,29 @@
+/**********************************************************************
+ * plugins/remark-writerside-tabs.ts
+ * MDAST transform: the `tabs` / `tab{title}` container directives made
+ * from Writerside <tabs> (utils/tabs.ts) become <div> elements marked
+ * data-authord-tabs / data-authord-tab="title"; rehypeConfluenceStorage
+ * renders them as expand macros or titled panels.
+ *********************************************************************/
+
+import type { Root as MdRoot } from 'mdast';
+import type { Node } from 'npm:@types/unist@^3';
+import { visit } from 'unist-util-visit';
+
+type DirectiveNode = Node & {
+  name?: string;
+  attributes?: Record<string, string | null | undefined> | null;
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+};
+
+export function remarkWritersideTabs() {
+  return function transformer(tree: MdRoot) {
+    visit(tree, 'containerDirective', (node: DirectiveNode) => {
+      if (node.name === 'tabs') {
+        node.data = { ...node.data, hName: 'div', hProperties: { dataAuthordTabs: 'true' } };
+      } else if (node.name === 'tab') {
+        node.data = { ...node.data, hName: 'div', hProperties: { dataAuthordTab: node.attributes?.title ?? '' } };
+      }
+    });
+  };
+}
@@ -0,0 +1,51 @@
+/**********************************************************************
+ * plugins/remark-writerside-variables.ts
+ * MDAST transform: substitute Writerside `%name%` variables in text,
+ * inline code, code blocks, raw HTML/XML and link/image urls.
+ *  - code blocks with {ignore-vars="true"} are left as is
+ *    (attributes read by remarkWritersideAttributes, which runs first)
+ *  - unknown names stay literal (validation reports them)
+ *********************************************************************/
+
+import type { Root as MdRoot } from 'mdast';
+import type { Node } from 'npm:@types/unist@^3';
+
+import { substituteVariables } from '../utils/writerside-project.ts';
+import { blockAttributes } from './remark-writerside-attributes.ts';
+
+export interface RemarkWritersideVariablesOptions {
+  variables?: Map<string, string>;
+}
+
+type VarNode = Node & { value?: string; url?: string; title?: string | null; alt?: string | null; children?: VarNode[] };
+
+export function remarkWritersideVariables(opts: RemarkWritersideVariablesOptions = {}) {
+  const vars = opts.variables ?? new Map<string, string>();
+
+  return function transformer(tree: MdRoot) {
+    if (!vars.size) return;
+    const sub = (s: string) => substituteVariables(s, vars);
+
+    (function walk(node: VarNode) {
+      switch (node.type) {
+        case 'code':
+          if (blockAttributes(node)['ignore-vars'] === 'true') return;
+          node.value = sub(node.value ?? '');
+          return;
+        case 'text':
+        case 'inlineCode':
+        case 'html':
+          node.value = sub(node.value ?? '');
+          return;
+        case 'link':
+        case 'image':
+        case 'definition':
+          node.url = sub(node.url ?? '');
+          if (node.title) node.title = sub(node.title);
+          if (node.alt) node.alt = sub(node.alt);
+          break;
+      }
+      node.children?.forEach(walk);
+    })(tree as VarNode);
+  };
+}
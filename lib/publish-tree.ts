@@ -0,0 +1,218 @@
+/**********************************************************************
+ * publish-tree.ts — Library-style module (no argv parsing / no exit)
+ * Publish an Authord / Writerside project as a Confluence page tree
+ * (Data Center / Server): one child page per toc-element, nested under
+ * a root page, in sibling order.
+ *
+ * • Ordering/hierarchy come from utils/topic-order.ts (same sources
+ *   and --instance selection as publish-single.ts); with --orphans,
+ *   orphans become root-level pages.
+ * • Root page: --page-id, or found/created via --space (utils/page-target.ts).
+ * • Pages are matched by title under their parent, else created.
+ * • Every page keeps its own exportHash → unchanged topics are skipped,
+ *   and exportVersion → pages edited in Confluence are skipped (and the
+ *   run fails) unless --force is given.
+ *********************************************************************/
+
+import fs   from 'node:fs/promises';
+import path from 'node:path';
+
+import {
+  createPage,
+  getRemoteProperty,
+  listChildPages,
+  movePage,
+  putPageStorage,
+  setRemoteHash,
+  setRemoteVersion,
+} from './utils/confluence-utils.ts';
+import { WritersideMarkdownTransformerDC } from './writerside-markdown-transformer.ts';
+import type { ChildPage, ConfluenceCfg, PageTarget, PublishTreeOptions, TopicNode } from './utils/types.ts';
+import { setImageDir } from './utils/images.ts';
+import { resolveTopicTree, topicTitle } from './utils/topic-order.ts';
+import { createTargetPage, findTargetPage } from './utils/page-target.ts';
+import { loadCategories, loadVariables, substituteVariables } from './utils/writerside-project.ts';
+import { loadDiagramFormat } from './utils/diagrams.ts';
+import { loadUsers } from './utils/users.ts';
+import {
+  describeManualEdit,
+  findManualEdit,
+  missingAttachments,
+  storageHash,
+  uploadAttachments,
+} from './utils/publish-utils.ts';
+import process from 'node:process';
+
+/** Body of a root page created by this tool. */
+const CHILDREN_MACRO =
+  '<ac:structured-macro ac:name="children" ac:schema-version="2"><ac:parameter ac:name="all">true</ac:parameter></ac:structured-macro>';
+
+export async function publishTree(options: PublishTreeOptions): Promise<void> {
+  const rootDir   = options.rootDir ?? process.cwd();
+  const mdDir     = path.resolve(rootDir, options.md);
+  const imgDir    = path.resolve(rootDir, options.images);
+  const baseUrl   = options.baseUrl;
+  const apiToken  = options.basicAuth;
+  const target: PageTarget = {
+    pageId:   options.pageId,
+    spaceKey: options.spaceKey,
+    parentId: options.parentId,
+    title:    options.title,
+    instance: options.instance,
+  };
+
+  for (const [label, val] of Object.entries({ mdDir, imgDir, baseUrl, apiToken })) {
+    if (!val) throw new Error(`Missing required option: ${label}`);
+  }
+  if (!target.pageId && !target.spaceKey) {
+    throw new Error('Missing required option: pageId or spaceKey (to find or create the root page).');
+  }
+
+  const cfg: ConfluenceCfg = { baseUrl, apiToken };
+  if (!process.env.AUTHORD_IMAGE_DIR) {
+    setImageDir(imgDir);
+  }
+
+  const topics = await resolveTopicTree(rootDir, mdDir, options);
+  if (!topics.length) throw new Error(`No markdown files found under: ${mdDir}`);
+
+  const variables   = await loadVariables(rootDir, options.instance);
+  const categories  = await loadCategories(rootDir);
+  const users       = await loadUsers(rootDir);
+  const diagramFormat = await loadDiagramFormat(rootDir);
+  const transformer = new WritersideMarkdownTransformerDC({
+    variables, categories, users, diagramFormat, topicsDir: mdDir,
+    tabs: options.tabs, strictDiagrams: options.strictDiagrams,
+  });
+
+  // --strict-diagrams: render every topic once before touching Confluence (rendered diagrams are cached)
+  if (options.strictDiagrams) await checkDiagrams(topics);
+
+  // Root page: --page-id, or found/created in --space (new roots just list their children)
+  const found = await findTargetPage(cfg, rootDir, target);
+  const root  = found ?? {
+    ...(await createTargetPage(cfg, rootDir, target, CHILDREN_MACRO)),
+    spaceKey: target.spaceKey!,
+  };
+  const stats = { created: 0, updated: 0, unchanged: 0 };
+  const blocked: string[] = [];   // pages edited in Confluence, left alone without --force
+  let reorderWarned = false;
+
+  await publishLevel(root.id, topics, !found);
+
+  console.log(
+    `✅ Page tree under “${root.title}” (id ${root.id}): ` +
+    `${stats.created} created, ${stats.updated} updated, ${stats.unchanged} unchanged.`,
+  );
+  if (blocked.length) {
+    throw new Error(
+      `${blocked.length} page(s) were edited in Confluence since the last publish and were not overwritten ` +
+      `(${blocked.map(t => `“${t}”`).join(', ')}). Re-run with --force to overwrite.`,
+    );
+  }
+
+  /* ───────── helpers ───────── */
+
+  /** Transform every topic without publishing; throws on the first page with a failed diagram. */
+  async function checkDiagrams(nodes: TopicNode[]): Promise<void> {
+    for (const node of nodes) {
+      await transformer.toStorage(await fs.readFile(node.file, 'utf8'), node.file);
+      await checkDiagrams(node.children);
+    }
+  }
+
+  /** Publish one sibling level under parentId, depth-first, then fix sibling order. */
+  async function publishLevel(parentId: string, nodes: TopicNode[], isNewParent: boolean) {
+    if (!nodes.length) return;
+    const existing = isNewParent ? [] : await listChildPages(cfg, parentId);
+    const byTitle  = new Map(existing.map(p => [p.title, p]));
+
+    const ids: string[] = [];
+    for (const node of nodes) {
+      const { id, created } = await publishTopic(node, parentId, byTitle);
+      ids.push(id);
+      await publishLevel(id, node.children, created);
+    }
+    await ensureSiblingOrder(parentId, ids);
+  }
+
+  async function publishTopic(
+    node: TopicNode,
+    parentId: string,
+    byTitle: Map<string, ChildPage>,
+  ): Promise<{ id: string; created: boolean }> {
+    const md    = await fs.readFile(node.file, 'utf8');
+    const title = substituteVariables(topicTitle(md, node.file, node.title), variables);
+    const { value: storageHtml, warnings } = await transformer.toStorage(md, node.file);
+    const hash  = storageHash(storageHtml);
+    const rel   = path.relative(mdDir, node.file);
+    for (const w of warnings) {
+      console.warn(`⚠️ ${path.relative(mdDir, w.file)}${w.line ? `:${w.line}` : ''}: ${w.message}`);
+    }
+
+    const page = byTitle.get(title);
+    if (!page) {
+      const created = await createPage(cfg, root.spaceKey, parentId, title, storageHtml);
+      await syncAttachments(created.id, storageHtml);
+      await setRemoteHash(cfg, created.id, hash);
+      await setRemoteVersion(cfg, created.id, created.version);
+      stats.created++;
+      console.log(`➕ Created “${title}” (id ${created.id}) from ${rel}`);
+      return { id: created.id, created: true };
+    }
+
+    const remoteHash = await getRemoteProperty(cfg, page.id);
+    if (remoteHash?.value === hash) {
+      await syncAttachments(page.id, storageHtml);
+      stats.unchanged++;
+      console.log(`⏩ Unchanged “${title}” (id ${page.id})`);
+      return { id: page.id, created: false };
+    }
+
+    const edit = await findManualEdit(cfg, page);
+    if (edit) {
+      if (!options.force) {
+        console.warn(`⛔ ${describeManualEdit(page, edit)} Skipped.`);
+        blocked.push(page.title);
+        return { id: page.id, created: false };
+      }
+      console.warn(`⚠️ ${describeManualEdit(page, edit)} Overwriting (--force).`);
+    }
+
+    await putPageStorage(cfg, page.id, title, page.nextVersion, storageHtml);
+    await syncAttachments(page.id, storageHtml);
+    await setRemoteHash(cfg, page.id, hash);
+    await setRemoteVersion(cfg, page.id, page.nextVersion);
+    stats.updated++;
+    console.log(`✅ Updated “${title}” (id ${page.id}) from ${rel}`);
+    return { id: page.id, created: false };
+  }
+
+  async function syncAttachments(pageId: string, storageHtml: string) {
+    const miss = await missingAttachments(cfg, pageId, storageHtml);
+    if (!miss.length) return;
+    console.log(`📸 Uploading ${miss.length} attachment(s) to page ${pageId}…`);
+    await uploadAttachments(cfg, pageId, imgDir, miss);
+  }
+
+  /** Move our pages so their relative order under parentId matches the TOC. Unmanaged siblings stay put. */
+  async function ensureSiblingOrder(parentId: string, wanted: string[]) {
+    if (wanted.length < 2) return;
+    const wantedSet = new Set(wanted);
+    const current = (await listChildPages(cfg, parentId))
+      .map(p => p.id)
+      .filter(id => wantedSet.has(id));
+    if (current.join() === wanted.join()) return;
+
+    try {
+      for (let i = 1; i < wanted.length; i++) {
+        await movePage(cfg, wanted[i], 'after', wanted[i - 1]);
+      }
+    } catch (err) {
+      if (!reorderWarned) {
+        console.warn(`⚠️ Could not reorder sibling pages: ${(err as Error).message}`);
+        reorderWarned = true;
+      }
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**********************************************************************
+ * utils/cli-utils.ts
+ * Shared bits for the commander commands: env help text, option
+ * parsers, project detection and validation.
+ *********************************************************************/
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import process from "node:process";
+import { InvalidArgumentError } from "commander";
+
+import type { TabStyle } from "./types.ts";
+import { validateAuthordProject } from "./validate-project.ts";
+import { validateWritersideProject } from "./validate-writerside.ts";
+
+const PROJECT_CONFIG_FILES = ['authord.config.json', 'writerside.cfg'];
+
+export type ProjectType = 'authord' | 'writerside';
+
+/* ── Help: environment variables (shows current values + defaults) ───────── */
+function envOrDef(name: string, def: string) {
+  const v = process.env[name];
+  return v ? `${v} (current)` : `${def} (default)`;
+}
+
+export const ENV_HELP = `
+Environment variables
+
+  Confluence auth/config (alternatives to flags)
+    CONF_BASE_URL                 ${envOrDef('CONF_BASE_URL', '(unset)')}
+      Alternative to --base-url.
+    CONF_BASIC_AUTH              ${envOrDef('CONF_BASIC_AUTH', '(unset)')}
+      Alternative to --basic-auth (format: user:pass).
+
+  Images (attachments)
+    AUTHORD_IMAGE_DIR             ${envOrDef('AUTHORD_IMAGE_DIR', 'images')}
+      Directory where generated diagrams (PNG/SVG) are linked/copied for Confluence attachments.
+    AUTHORD_WORK_DIR              ${envOrDef('AUTHORD_WORK_DIR', '<system temp>/authord')}
+      Holds diagram-manifest.json, the record of rendered diagrams used by "authord cache prune".
+
+  Mermaid rendering (JS API; Puppeteer-backed)
+    AUTHORD_MERMAID_FALLBACK_CLI  ${envOrDef('AUTHORD_MERMAID_FALLBACK_CLI', '0')}
+      Enable CLI fallback if JS API fails. Accepted truthy values: 1,true,on,yes.
+    AUTHORD_MERMAID_CONCURRENCY   ${envOrDef('AUTHORD_MERMAID_CONCURRENCY', '4')}
+      Diagrams rendered at once in the shared headless browser.
+    MMD_WIDTH                     ${envOrDef('MMD_WIDTH',  '800')}
+    MMD_HEIGHT                    ${envOrDef('MMD_HEIGHT', '600')}
+    MMD_SCALE                     ${envOrDef('MMD_SCALE',  '1')}
+    MMD_BG                        ${envOrDef('MMD_BG',     'white')}
+      Viewport and background color for Mermaid renders.
+
+  Other diagrams (plantuml, dot, d2 fences; tools must be installed)
+    AUTHORD_PLANTUML_JAR          ${envOrDef('AUTHORD_PLANTUML_JAR', '(unset)')}
+      Render PlantUML with "java -jar <jar>" instead of the plantuml command.
+    AUTHORD_DIAGRAM_TIMEOUT       ${envOrDef('AUTHORD_DIAGRAM_TIMEOUT', '60')}
+      Seconds a diagram tool may run before it is killed and the diagram reported as not rendered.
+
+Notes
+  • CLI renders are fastest via the JS API with Puppeteer; the CLI fallback is a safety net.
+  • Headless Chromium launches with --no-sandbox and --disable-setuid-sandbox by default (good for CI/DC).
+  • Generated images are cached and linked under AUTHORD_IMAGE_DIR; attachments are uploaded as needed.
+`;
+
+/* ─────────────────────────────────────────────────────────────────────────── */
+
+/** --tabs <style> */
+export function parseTabStyle(value: string): TabStyle {
+  if (value === 'expand' || value === 'panel') return value;
+  throw new InvalidArgumentError('Expected "expand" or "panel".');
+}
+
+/** Detect project type by the presence of its config file in rootDir. */
+export function detectProjectType(rootDir: string): ProjectType {
+  for (const cfgFile of PROJECT_CONFIG_FILES) {
+    if (fs.existsSync(path.join(rootDir, cfgFile))) {
+      return cfgFile.split('.')[0] as ProjectType;
+    }
+  }
+  throw new Error('No project config found in the provided directory (authord.config.json | writerside.cfg)');
+}
+
+/** Run the project validators (exit non-zero on errors). */
+export async function validateProject(rootDir: string, projectType: ProjectType): Promise<void> {
+  // Validators commonly expect to read under CWD.
+  // We temporarily chdir to rootDir to avoid any hidden PWD assumptions.
+  const prevCwd = process.cwd();
+  process.chdir(rootDir);
+  try {
+    if (projectType === 'authord') {
+      await validateAuthordProject();
+    } else {
+      await validateWritersideProject();
+    }
+  } finally {
+    process.chdir(prevCwd);
+  }
+}
@@ -4,12 +4,15 @@ import path from 'node:path';
 import FormData from 'form-data';
 import {
   AttachmentResponse,
+  ChildPage,
   ConfluenceAttachment,
   ConfluenceCfg,
+  PageInfo,
   PropertyData,
   UploadResult,
 } from './types.ts';
 import { Buffer } from "node:buffer";
+import { imageContentType } from './images.ts';
 
 export const authHeaders = (cfg: ConfluenceCfg) => {
   const tok = (cfg.apiToken || '').trim();
@@ -35,10 +38,18 @@ function explainAxios(err: any): string {
 
 /* ═════════════ Content CRUD & versioning ═════════════ */
 
+/** Who/when of a `version` object (expand=version). */
+function versionAuthor(v: { by?: { displayName?: string; username?: string }; when?: string } | undefined) {
+  return {
+    editedBy: v?.by?.displayName ?? v?.by?.username,
+    editedAt: v?.when,
+  };
+}
+
 
 
 /** Fetch by pageId, include title & space so callers can keep current title. */
-export async function getPageWithVersion(cfg: ConfluenceCfg, pageId: string) {
+export async function getPageWithVersion(cfg: ConfluenceCfg, pageId: string): Promise<PageInfo> {
   try {
     const url = `${cfg.baseUrl}/rest/api/content/${pageId}?expand=version,space`;
     const { data } = await axios.get(url, authHeaders(cfg));
@@ -47,12 +58,58 @@ export async function getPageWithVersion(cfg: ConfluenceCfg, pageId: string) {
       nextVersion: (data.version?.number ?? 0) + 1,
       title:       String(data.title ?? ''),
       spaceKey:    String(data.space?.key ?? ''),
+      ...versionAuthor(data.version),
     };
   } catch (err) {
     throw new Error(`getPageWithVersion failed: ${explainAxios(err)}`);
   }
 }
 
+/** Current storage (XHTML) body of a page. */
+export async function getPageStorage(cfg: ConfluenceCfg, pageId: string): Promise<string> {
+  try {
+    const url = `${cfg.baseUrl}/rest/api/content/${pageId}?expand=body.storage`;
+    const { data } = await axios.get(url, authHeaders(cfg));
+    return String(data.body?.storage?.value ?? '');
+  } catch (err) {
+    throw new Error(`getPageStorage failed: ${explainAxios(err)}`);
+  }
+}
+
+/** Like getPageWithVersion, but undefined when the page no longer exists (404). */
+export async function findPageById(cfg: ConfluenceCfg, pageId: string): Promise<PageInfo | undefined> {
+  try {
+    return await getPageWithVersion(cfg, pageId);
+  } catch (err) {
+    if (/HTTP 404\b/.test((err as Error).message)) return undefined;
+    throw err;
+  }
+}
+
+/** Find a page by exact title in a space; undefined when there is none. */
+export async function findPageByTitle(
+  cfg: ConfluenceCfg,
+  spaceKey: string,
+  title: string
+): Promise<PageInfo | undefined> {
+  try {
+    const { data } = await axios.get(`${cfg.baseUrl}/rest/api/content`, {
+      ...authHeaders(cfg),
+      params: { type: 'page', spaceKey, title, expand: 'version,space' },
+    });
+    const hit = data.results?.[0];
+    if (!hit) return undefined;
+    return {
+      id:          String(hit.id),
+      nextVersion: (hit.version?.number ?? 0) + 1,
+      title:       String(hit.title ?? ''),
+      spaceKey:    String(hit.space?.key ?? spaceKey),
+    };
+  } catch (err) {
+    throw new Error(`findPageByTitle failed: ${explainAxios(err)}`);
+  }
+}
+
 /** Update page with storage (XHTML) body — requires next version number. */
 export async function putPageStorage(
   cfg: ConfluenceCfg,
@@ -78,15 +135,87 @@ export async function putPageStorage(
   }
 }
 
+/** Create a page under parentId with a storage body; returns the new id. */
+export async function createPage(
+  cfg: ConfluenceCfg,
+  spaceKey: string,
+  parentId: string | undefined,
+  title: string,
+  storageHtml: string
+): Promise<{ id: string; title: string; version: number }> {
+  try {
+    const { data } = await axios.post(
+      `${cfg.baseUrl}/rest/api/content`,
+      {
+        type: 'page',
+        title,
+        space: { key: spaceKey },
+        ...(parentId ? { ancestors: [{ id: parentId }] } : {}),
+        body: { storage: { value: storageHtml, representation: 'storage' } },
+      },
+      authHeaders(cfg)
+    );
+    return { id: String(data.id), title: String(data.title ?? title), version: data.version?.number ?? 1 };
+  } catch (err) {
+    throw new Error(`createPage failed: ${explainAxios(err)}`);
+  }
+}
+
+/** Direct child pages of parentId, in Confluence sibling order. */
+export async function listChildPages(
+  cfg: ConfluenceCfg,
+  parentId: string
+): Promise<ChildPage[]> {
+  const out: ChildPage[] = [];
+  let url = `${cfg.baseUrl}/rest/api/content/${parentId}/child/page?limit=200&expand=version`;
+
+  while (url) {
+    try {
+      const { data } = await axios.get(url, authHeaders(cfg));
+      for (const p of data.results ?? []) {
+        out.push({
+          id:          String(p.id),
+          title:       String(p.title ?? ''),
+          nextVersion: (p.version?.number ?? 0) + 1,
+          ...versionAuthor(p.version),
+        });
+      }
+      url = data._links?.next ? cfg.baseUrl + data._links.next : '';
+    } catch (err) {
+      throw new Error(`listChildPages failed: ${explainAxios(err)}`);
+    }
+  }
+  return out;
+}
+
+/** Reorder a page relative to a sibling (position: 'before' | 'after'). */
+export async function movePage(
+  cfg: ConfluenceCfg,
+  pageId: string,
+  position: 'before' | 'after',
+  targetId: string
+): Promise<void> {
+  try {
+    await axios.put(
+      `${cfg.baseUrl}/rest/api/content/${pageId}/move/${position}/${targetId}`,
+      {},
+      { headers: { ...authHeaders(cfg).headers, 'X-Atlassian-Token': 'no-check' } }
+    );
+  } catch (err) {
+    throw new Error(`movePage failed: ${explainAxios(err)}`);
+  }
+}
+
 /* ═════════════ Content-property management ═════════════ */
 
 export async function getRemoteProperty(
   cfg: ConfluenceCfg,
-  pageId: string
+  pageId: string,
+  key = 'exportHash'
 ): Promise<PropertyData | undefined> {
   try {
     const { data } = await axios.get(
-      `${cfg.baseUrl}/rest/api/content/${pageId}/property/exportHash`,
+      `${cfg.baseUrl}/rest/api/content/${pageId}/property/${key}`,
       authHeaders(cfg)
     );
     return data as PropertyData;
@@ -104,31 +233,54 @@ export async function getRemoteProperty(
   }
 }
 
-export async function setRemoteHash(
+/** Create or update a string content property. */
+export async function setRemoteProperty(
   cfg: ConfluenceCfg,
   pageId: string,
-  hash: string
+  key: string,
+  value: string
 ): Promise<void> {
   try {
-    const existing = await getRemoteProperty(cfg, pageId);
+    const existing = await getRemoteProperty(cfg, pageId, key);
     if (existing) {
       await axios.put(
-        `${cfg.baseUrl}/rest/api/content/${pageId}/property/exportHash`,
-        { value: hash, version: { number: (existing.version?.number ?? 0) + 1 } },
+        `${cfg.baseUrl}/rest/api/content/${pageId}/property/${key}`,
+        { value, version: { number: (existing.version?.number ?? 0) + 1 } },
         authHeaders(cfg)
       );
     } else {
       await axios.post(
         `${cfg.baseUrl}/rest/api/content/${pageId}/property`,
-        { key: 'exportHash', value: hash },
+        { key, value },
         authHeaders(cfg)
       );
     }
   } catch (err) {
-    throw new Error(`setRemoteHash failed: ${explainAxios(err)}`);
+    throw new Error(`setRemoteProperty(${key}) failed: ${explainAxios(err)}`);
+  }
+}
+
+export async function setRemoteHash(
+  cfg: ConfluenceCfg,
+  pageId: string,
+  hash: string
+): Promise<void> {
+  try {
+    await setRemoteProperty(cfg, pageId, 'exportHash', hash);
+  } catch (err) {
+    throw new Error(`setRemoteHash failed: ${(err as Error).message}`);
   }
 }
 
+/** Record the page version this tool published (next to exportHash), for manual-edit detection. */
+export async function setRemoteVersion(
+  cfg: ConfluenceCfg,
+  pageId: string,
+  version: number
+): Promise<void> {
+  await setRemoteProperty(cfg, pageId, 'exportVersion', String(version));
+}
+
 /* ═════════════ Attachment helpers ═════════════ */
 
 export async function listAttachments(
@@ -162,22 +314,22 @@ function pickAttachmentId(att: ConfluenceAttachment): string {
   throw new Error(`No usable ID for attachment "${att.title}"`);
 }
 
-/** Upload a fresh image (PNG) — falls back to ensureAttachment on filename conflicts (4xx). */
+/** Upload a fresh image (PNG, SVG, …; typed by extension) — falls back to ensureAttachment on filename conflicts (4xx). */
 export async function uploadImages(
   cfg: ConfluenceCfg,
   pageId: string,
-  absPng: string
+  absPath: string
 ): Promise<UploadResult> {
-  const fileName = path.basename(absPng);
+  const fileName = path.basename(absPath);
   const url      = `${cfg.baseUrl}/rest/api/content/${pageId}/child/attachment`;
 
   try {
-    const pngBuf   = await fs.readFile(absPng);
+    const buf  = await fs.readFile(absPath);
     const form = new FormData();
-    form.append('file', pngBuf, {
+    form.append('file', buf, {
       filename: fileName,
-      contentType: 'image/png',
-      knownLength: pngBuf.length,
+      contentType: imageContentType(absPath),
+      knownLength: buf.length,
     });
 
     const { data } = await axios.post(
@@ -199,7 +351,7 @@ export async function uploadImages(
 
     // Duplicate filename? => fallback to ensureAttachment
     if (!data.results?.length) {
-      return ensureAttachment(cfg, pageId, absPng);
+      return ensureAttachment(cfg, pageId, absPath);
     }
 
     const att = data.results[0] as ConfluenceAttachment;
@@ -207,7 +359,7 @@ export async function uploadImages(
   } catch (err) {
     // If direct upload failed for any reason, try to discover the latest mediaId
     try {
-      return await ensureAttachment(cfg, pageId, absPng);
+      return await ensureAttachment(cfg, pageId, absPath);
     } catch (fallbackErr) {
       throw new Error(`uploadImages failed: ${explainAxios(err)}; fallback failed: ${explainAxios(fallbackErr)}`);
     }
@@ -0,0 +1,72 @@
+/**********************************************************************
+ * utils/diagram-cache.ts
+ * Manifest of rendered diagrams, kept in AUTHORD_WORK_DIR (default:
+ * <system temp>/authord) as diagram-manifest.json:
+ *
+ *   { "diagrams": { "<abs path of png>": { renderer, version, imageDir,
+ *                                          created, lastUsed } } }
+ *
+ * utils/diagrams.ts records every render and cache hit; `authord cache
+ * prune` (cache-prune.ts) drops entries no topic references any more.
+ * Only files listed here are ever deleted.
+ *********************************************************************/
+
+import fs   from 'node:fs/promises';
+import fss  from 'node:fs';
+import os   from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+
+export const MANIFEST_FILE = 'diagram-manifest.json';
+
+export interface DiagramManifestEntry {
+  renderer: string;
+  version: string;
+  /** Directory the PNG was written to (IMAGE_DIR of the run) */
+  imageDir: string;
+  created: string;          // ISO timestamps
+  lastUsed: string;
+}
+
+export interface DiagramManifest {
+  diagrams: Record<string, DiagramManifestEntry>;
+}
+
+export const workDir = () => process.env.AUTHORD_WORK_DIR || path.join(os.tmpdir(), 'authord');
+
+const manifestPath = () => path.join(workDir(), MANIFEST_FILE);
+
+export async function readDiagramManifest(): Promise<DiagramManifest> {
+  const p = manifestPath();
+  if (!fss.existsSync(p)) return { diagrams: {} };
+  try {
+    const parsed = JSON.parse(await fs.readFile(p, 'utf8'));
+    return { diagrams: parsed?.diagrams ?? {} };
+  } catch (err) {
+    throw new Error(`Invalid diagram manifest ${p}: ${(err as Error).message}`);
+  }
+}
+
+export async function writeDiagramManifest(manifest: DiagramManifest): Promise<void> {
+  await fs.mkdir(workDir(), { recursive: true });
+  await fs.writeFile(manifestPath(), JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+}
+
+/** Updates are chained so parallel renders never overwrite each other's entries. */
+let queue: Promise<void> = Promise.resolve();
+
+/** Note that `file` was rendered or reused now. */
+export function recordDiagram(file: string, entry: Pick<DiagramManifestEntry, 'renderer' | 'version'>): Promise<void> {
+  const now = new Date().toISOString();
+  queue = queue.catch(() => {}).then(async () => {
+    const manifest = await readDiagramManifest();
+    manifest.diagrams[file] = {
+      ...entry,
+      imageDir: path.dirname(file),
+      created: manifest.diagrams[file]?.created ?? now,
+      lastUsed: now,
+    };
+    await writeDiagramManifest(manifest);
+  });
+  return queue;
+}
@@ -0,0 +1,260 @@
+/**********************************************************************
+ * utils/diagrams.ts
+ * Diagram renderers keyed by fence language. Each renderer turns a
+ * definition into a PNG or SVG by calling a locally installed tool:
+ *
+ * • mermaid           → shared headless browser (utils/mermaid.ts)
+ * • plantuml / puml   → `plantuml`, or `java -jar $AUTHORD_PLANTUML_JAR`
+ * • dot / graphviz    → Graphviz `dot`
+ * • d2                → `d2`
+ *
+ * renderDiagram() adds what all of them share: one cached image under
+ * IMAGE_DIR named by the SHA-256 of renderer, tool version, render
+ * options and definition (reused while it is a valid image, recorded
+ * in the manifest of utils/diagram-cache.ts), SVG output with a PNG
+ * fallback (project option, see loadDiagramFormat) and a readable
+ * error when the tool is missing, fails or hangs.
+ * Other diagram types plug in via registerDiagramRenderer().
+ *********************************************************************/
+
+import * as fs   from 'node:fs';
+import * as fsp  from 'node:fs/promises';
+import * as path from 'node:path';
+import process   from 'node:process';
+import { spawn, spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { Buffer } from 'node:buffer';
+import { z } from 'zod';
+
+import { recordDiagram } from './diagram-cache.ts';
+import { IMAGE_DIR, isImageFileOK } from './images.ts';
+import { mermaidVersion, renderMermaidDefinitionToFile, type MermaidCliOptions } from './mermaid.ts';
+import type { DiagramFormat } from './types.ts';
+
+export interface DiagramRenderer {
+  /** Cache-key prefix and name in messages, e.g. 'plantuml' */
+  name: string;
+  /** Fence languages handled, e.g. ['plantuml', 'puml'] */
+  languages: string[];
+  /** Tool version; part of the cache key, so upgrading the tool re-renders ('' when unknown) */
+  version?(): string | Promise<string>;
+  /** Settings that change the output (theme, size, …); part of the cache key */
+  options?(): Record<string, unknown>;
+  /** Output formats the tool can write (default ['png']) */
+  formats?: DiagramFormat[];
+  /** Write `definition` to `outFile` in `format` (the file's extension); throw on failure. */
+  render(definition: string, outFile: string, format: DiagramFormat): Promise<void>;
+}
+
+export type DiagramResult = { ok: true; file: string } | { ok: false; error: string };
+
+const registry = new Map<string, DiagramRenderer>();
+
+/** Add (or replace) the renderer for its fence languages. */
+export function registerDiagramRenderer(renderer: DiagramRenderer) {
+  for (const lang of renderer.languages) registry.set(lang.toLowerCase(), renderer);
+}
+
+export const diagramRenderer = (lang: string | null | undefined) =>
+  lang ? registry.get(lang.toLowerCase()) : undefined;
+
+/* ────────── cache ────────── */
+
+const versions = new Map<DiagramRenderer, Promise<string>>();
+
+/** Renderer version, asked once per run. */
+const rendererVersion = (renderer: DiagramRenderer) => {
+  let v = versions.get(renderer);
+  if (!v) {
+    v = Promise.resolve().then(() => renderer.version?.() ?? '').catch(() => '');
+    versions.set(renderer, v);
+  }
+  return v;
+};
+
+/** Cache key: SHA-256 over renderer, its version, its options and the (trimmed) definition. */
+export async function diagramCacheKey(renderer: DiagramRenderer, definition: string): Promise<string> {
+  const key = JSON.stringify([renderer.name, await rendererVersion(renderer), renderer.options?.() ?? {}, definition.trim()]);
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/** Cache file name: `<key>.png` / `<key>.svg` */
+export const diagramFileName = async (renderer: DiagramRenderer, definition: string, format: DiagramFormat = 'png') =>
+  `${await diagramCacheKey(renderer, definition)}.${format}`;
+
+/** Renders in progress by output file, so repeated diagrams on a page are drawn once. */
+const pending = new Map<string, Promise<DiagramResult>>();
+
+/** Render (or reuse the cached file for) one definition; an SVG that cannot be rendered falls back to PNG. */
+export async function renderDiagram(
+  renderer: DiagramRenderer,
+  definition: string,
+  format: DiagramFormat = 'png',
+): Promise<DiagramResult> {
+  if (format === 'svg' && (renderer.formats ?? ['png']).includes('svg')) {
+    const svg = await renderCached(renderer, definition, 'svg');
+    if (svg.ok) return svg;
+  }
+  return renderCached(renderer, definition, 'png');
+}
+
+async function renderCached(renderer: DiagramRenderer, definition: string, format: DiagramFormat): Promise<DiagramResult> {
+  const def = definition.trim();
+  const out = path.join(IMAGE_DIR, await diagramFileName(renderer, def, format));
+
+  let job = pending.get(out);
+  if (!job) {
+    job = (fs.existsSync(out) && isImageFileOK(out)
+      ? Promise.resolve<DiagramResult>({ ok: true, file: out })
+      : renderToFile(renderer, def, out, format)
+    ).finally(() => pending.delete(out));
+    pending.set(out, job);
+  }
+  const res = await job;
+  if (res.ok) {
+    // bookkeeping only: a broken manifest must not stop the publish (cache prune reports it)
+    await recordDiagram(out, { renderer: renderer.name, version: await rendererVersion(renderer) }).catch(() => {});
+  }
+  return res;
+}
+
+async function renderToFile(renderer: DiagramRenderer, def: string, out: string, format: DiagramFormat): Promise<DiagramResult> {
+  try {
+    if (!fs.existsSync(path.dirname(out))) throw new Error(`image directory ${path.dirname(out)} does not exist`);
+    await renderer.render(def, out, format);
+    if (!isImageFileOK(out)) throw new Error(`no valid ${format.toUpperCase()} was written`);
+    return { ok: true, file: out };
+  } catch (err) {
+    try { if (fs.existsSync(out)) await fsp.unlink(out); } catch { /* best effort */ }
+    const reason = (err as Error).message.split('\n')[0];
+    return { ok: false, error: `${renderer.name} diagram not rendered: ${reason}` };
+  }
+}
+
+/* ────────── project option ────────── */
+
+/** "diagrams" section of authord.config.json */
+export const DiagramsConfigSchema = z.object({
+  format: z.enum(['png', 'svg']).optional(),
+});
+
+/** Diagram format from authord.config.json ({ "diagrams": { "format": "svg" } }); 'png' when unset. */
+export async function loadDiagramFormat(rootDir: string): Promise<DiagramFormat> {
+  const file = path.join(rootDir, 'authord.config.json');
+  if (!fs.existsSync(file)) return 'png';
+  const json = JSON.parse(await fsp.readFile(file, 'utf8'));
+  const parsed = DiagramsConfigSchema.safeParse(json?.diagrams ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid "diagrams" section in ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+  return parsed.data.format ?? 'png';
+}
+
+/* ────────── helpers for tool-based renderers ────────── */
+
+/** Seconds a diagram tool may run before it is killed (AUTHORD_DIAGRAM_TIMEOUT, default 60). */
+export function diagramTimeout(): number {
+  const s = Number(process.env.AUTHORD_DIAGRAM_TIMEOUT);
+  return s > 0 ? s : 60;
+}
+
+/**
+ * Run `cmd args`, feeding `stdin`; resolves with stdout, rejects with stderr / exit code.
+ * A tool still running after diagramTimeout() seconds is killed and reported as timed out.
+ */
+export function runTool(cmd: string, args: string[], stdin?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(cmd, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const out: Buffer[] = [];
+    const err: Buffer[] = [];
+    const seconds = diagramTimeout();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; child.kill('SIGKILL'); }, seconds * 1000);
+    child.stdout.on('data', (b: Buffer) => out.push(b));
+    child.stderr.on('data', (b: Buffer) => err.push(b));
+    child.on('error', (e: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(new Error(e.code === 'ENOENT' ? `${cmd} not found (is it installed and on PATH?)` : e.message));
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (timedOut) return reject(new Error(`${cmd} timed out after ${seconds}s (AUTHORD_DIAGRAM_TIMEOUT)`));
+      if (code === 0) return resolve(Buffer.concat(out));
+      const msg = Buffer.concat(err).toString('utf8').trim().split('\n').slice(0, 3).join(' ');
+      reject(new Error(`${cmd} exited with code ${code}${msg ? `: ${msg}` : ''}`));
+    });
+    child.stdin.on('error', () => { /* reported via 'error' / 'close' */ });
+    child.stdin.end(stdin ?? '');
+  });
+}
+
+/** First line of `cmd args` output (stdout or stderr), '' when the tool is missing. */
+export function toolVersion(cmd: string, args: string[]): string {
+  const res = spawnSync(cmd, args, { encoding: 'utf8', timeout: 15_000 });
+  if (res.error) return '';
+  return `${res.stdout ?? ''}\n${res.stderr ?? ''}`.trim().split('\n')[0].trim();
+}
+
+/* ────────── built-in renderers ────────── */
+
+const envNumber = (name: string) => (process.env[name] ? Number(process.env[name]) : undefined);
+
+const mermaidOptions = (): MermaidCliOptions => ({
+  width: envNumber('MMD_WIDTH'),
+  height: envNumber('MMD_HEIGHT'),
+  scale: envNumber('MMD_SCALE'),
+  backgroundColor: process.env.MMD_BG,
+  theme: process.env.MMD_THEME,
+  configFile: process.env.MMD_CONFIG,
+  quiet: true,
+});
+
+registerDiagramRenderer({
+  name: 'mermaid',
+  languages: ['mermaid'],
+  version: mermaidVersion,
+  options() {
+    const { configFile, ...opts } = mermaidOptions();
+    // the config's contents matter, not its path
+    const config = configFile && fs.existsSync(configFile) ? fs.readFileSync(configFile, 'utf8') : undefined;
+    return { ...opts, config };
+  },
+  formats: ['svg', 'png'],
+  render: (def, outFile) => renderMermaidDefinitionToFile(def, outFile, mermaidOptions()),
+});
+
+const plantumlJar = () => process.env.AUTHORD_PLANTUML_JAR;
+
+registerDiagramRenderer({
+  name: 'plantuml',
+  languages: ['plantuml', 'puml'],
+  version: () => {
+    const jar = plantumlJar();
+    return jar ? toolVersion('java', ['-jar', jar, '-version']) : toolVersion('plantuml', ['-version']);
+  },
+  formats: ['svg', 'png'],
+  async render(def, outFile, format) {
+    const jar  = plantumlJar();
+    const args = [`-t${format}`, '-pipe', '-charset', 'UTF-8'];
+    const src  = /^\s*@start/.test(def) ? def : `@startuml\n${def}\n@enduml`;
+    const png  = jar ? await runTool('java', ['-Djava.awt.headless=true', '-jar', jar, ...args], src)
+                     : await runTool('plantuml', args, src);
+    await fsp.writeFile(outFile, png);
+  },
+});
+
+registerDiagramRenderer({
+  name: 'dot',
+  languages: ['dot', 'graphviz'],
+  version: () => toolVersion('dot', ['-V']),
+  formats: ['svg', 'png'],
+  render: async (def, outFile, format) => { await runTool('dot', [`-T${format}`, '-o', outFile], def); },
+});
+
+registerDiagramRenderer({
+  name: 'd2',
+  languages: ['d2'],
+  version: () => toolVersion('d2', ['--version']),
+  formats: ['svg', 'png'],
+  render: async (def, outFile) => { await runTool('d2', ['-', outFile], def); },   // format from the extension
+});
@@ -7,6 +7,7 @@ import { Buffer } from "node:buffer";
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as process from 'node:process';
+import { imageSize } from 'image-size';
 
 export const PNG_MAGIC = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
 
@@ -17,18 +18,61 @@ export function setImageDir(dir: string) {
   IMAGE_DIR = dir;
 }
 
-/* ────────── hashing & PNG cache ────────── */
-export const hashString = (s: string): string => {
-  let h = 5381; for (let i = 0; i < s.length; i++) h = (h << 5) + h + s.charCodeAt(i);
-  return Math.abs(h).toString(16);
-};
+/* ────────── image files (PNG, SVG, …) ────────── */
+const isSvg = (p: string) => path.extname(p).toLowerCase() === '.svg';
+
+/** Root <svg …> start tag of an SVG document, if any. */
+const svgRootTag = (text: string) => /<svg\b[^>]*>/i.exec(text)?.[0];
 
-export function isPngFileOK(p: string): boolean {
+/** Is `p` a usable image: PNG magic bytes, or for .svg an <svg> root that is closed? */
+export function isImageFileOK(p: string): boolean {
   try {
     const buf = fs.readFileSync(p);
+    if (isSvg(p)) {
+      const text = buf.toString('utf8');
+      return !!svgRootTag(text) && /<\/svg\s*>\s*$/i.test(text);
+    }
     return buf.length >= 8 && buf.compare(PNG_MAGIC, 0, 8, 0, 8) === 0;
   } catch { return false; }
 }
-/* ────────── ATTACHMENT STUBS ────────── */
-export const makeStub = (file: string, params = '') =>
-  `@@ATTACH|file=${path.basename(file)}${params ? `|${params}` : ''}@@`;
+
+/**
+ * Intrinsic size of an SVG: numeric (px) width/height on the root element,
+ * else Mermaid's `max-width` style with the viewBox ratio, else the viewBox.
+ */
+export function svgSize(svg: string): { width?: number; height?: number } {
+  const tag = svgRootTag(svg);
+  if (!tag) return {};
+  const attr = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tag)?.[1];
+  const px = (v?: string) => (v && /^\s*[\d.]+\s*(px)?\s*$/i.test(v) ? Math.round(parseFloat(v)) : undefined);
+
+  const box = (attr('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+  const [bw, bh] = box.length === 4 && box.every(n => Number.isFinite(n)) ? [box[2], box[3]] : [];
+  const width  = px(attr('width'));
+  const height = px(attr('height'));
+  if (width && height) return { width, height };
+
+  const maxWidth = px(/max-width:\s*([\d.]+px)/i.exec(attr('style') ?? '')?.[1]);
+  const w = width ?? maxWidth ?? (bw ? Math.round(bw) : undefined);
+  const h = height ?? (w && bw && bh ? Math.round((w * bh) / bw) : undefined);
+  return { width: w, height: h };
+}
+
+/** Pixel size of an image file (SVGs via svgSize); {} when unknown or unreadable. */
+export function imageDimensions(p: string): { width?: number; height?: number } {
+  try {
+    const buf = fs.readFileSync(p);
+    if (isSvg(p)) return svgSize(buf.toString('utf8'));
+    const { width, height } = imageSize(buf);
+    return { width, height };
+  } catch { return {}; }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif',
+  '.svg': 'image/svg+xml', '.webp': 'image/webp',
+};
+
+/** MIME type for an attachment upload, by extension. */
+export const imageContentType = (p: string) =>
+  CONTENT_TYPES[path.extname(p).toLowerCase()] ?? 'application/octet-stream';
@@ -0,0 +1,140 @@
+/**********************************************************************
+ * utils/includes.ts
+ * Writerside <include from="…" element-id="…"/> at the source level
+ * (before parsing), outside fenced code:
+ *
+ * • from       → file relative to the including topic, else to the
+ *                topics dir
+ * • element-id → <snippet id>…</snippet> (inner content, dedented),
+ *                any other <tag id>…</tag> (whole element),
+ *                a heading `## Title {id="…"}` (its section) or the
+ *                block right above an `{id="…"}` attribute line
+ *
+ * Included fragments are expanded recursively; missing files/ids and
+ * cycles are reported as problems and the <include> is dropped. Every
+ * line of the result maps back to `file`: fragment lines to the line of
+ * their <include>.
+ *********************************************************************/
+
+import fs   from 'node:fs';
+import path from 'node:path';
+
+import { dedent, fenceRanges, insideRanges, lineAt, replaceWithLines, type SourceLine, sourceLines, xmlAttr } from './md-source.ts';
+
+export interface IncludeProblem {
+  /** File containing the offending <include> */
+  file: string;
+  line: number;
+  /** `from` or `from#element-id` */
+  target: string;
+  message: string;
+}
+
+export interface IncludeOptions {
+  /** Topics root; `from` paths not found next to the including file are resolved here. */
+  topicsDir?: string;
+}
+
+const INCLUDE_RE = /<include\b((?:[^>"']|"[^"]*"|'[^']*')*?)(?:\/>|>\s*<\/include\s*>)/g;
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Source of the element/section/block with the given id, or null. */
+export function findElementById(src: string, id: string): string | null {
+  const fences = fenceRanges(src);
+  const first = (re: RegExp) => {
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(src))) if (!insideRanges(m.index, fences)) return m;
+    return null;
+  };
+  const idRe = escapeRe(id);
+
+  // 1) XML element with id="…"
+  const open = first(new RegExp(`<([A-Za-z][\\w:.-]*)\\b(?:[^>"']|"[^"]*"|'[^']*')*?\\sid\\s*=\\s*["']${idRe}["'](?:[^>"']|"[^"]*"|'[^']*')*?(\\/?)>`, 'g'));
+  if (open) {
+    const [whole, tag, selfClose] = open;
+    if (selfClose) return whole;
+    const bodyStart = open.index + whole.length;
+    const tagRe = new RegExp(`<(\\/?)${escapeRe(tag)}\\b(?:[^>"']|"[^"]*"|'[^']*')*?(\\/?)>`, 'g');
+    tagRe.lastIndex = bodyStart;
+    let depth = 1;
+    let m: RegExpExecArray | null;
+    while ((m = tagRe.exec(src))) {
+      if (m[2]) continue;                      // <tag …/>
+      depth += m[1] ? -1 : 1;
+      if (depth === 0) {
+        return tag === 'snippet'
+          ? dedent(src.slice(bodyStart, m.index))
+          : src.slice(open.index, m.index + m[0].length);
+      }
+    }
+    return null;                               // unclosed element
+  }
+
+  // 2) Markdown heading with {id="…"} / {#…}: the heading and its section
+  const attrId = `\\{[^}\\n]*(?:\\bid\\s*=\\s*"${idRe}"|#${idRe}(?![\\w-]))[^}\\n]*\\}`;
+  const heading = first(new RegExp(`^(#{1,6})[ \\t]+[^\\n]*?${attrId}[ \\t]*$`, 'gm'));
+  if (heading) {
+    const next = new RegExp(`^#{1,${heading[1].length}}[ \\t]`, 'gm');
+    next.lastIndex = heading.index + heading[0].length;
+    let end = src.length;
+    let m: RegExpExecArray | null;
+    while ((m = next.exec(src))) if (!insideRanges(m.index, fences)) { end = m.index; break; }
+    return src.slice(heading.index, end).trim();
+  }
+
+  // 3) Block followed by an {id="…"} attribute line
+  const attrLine = first(new RegExp(`^${attrId}[ \\t]*$`, 'gm'));
+  if (attrLine) {
+    const before = src.slice(0, attrLine.index).replace(/\s+$/, '');
+    const blank  = before.search(/\n[ \t]*\n(?![\s\S]*\n[ \t]*\n)/);
+    return (blank < 0 ? before : before.slice(blank)).trim();
+  }
+  return null;
+}
+
+/** Expand every <include> in `md` (a topic at `file`), recursively. */
+export function expandIncludes(
+  md: string,
+  file: string,
+  opts: IncludeOptions = {},
+  stack: string[] = [],
+): { markdown: string; problems: IncludeProblem[]; lines: SourceLine[] } {
+  const problems: IncludeProblem[] = [];
+  if (!md.includes('<include')) return { markdown: md, problems, lines: sourceLines(md, file) };
+
+  const fences = fenceRanges(md);
+  const self   = stack.length ? stack : [path.resolve(file)];
+
+  const { text, lines } = replaceWithLines(md, INCLUDE_RE, ({ 1: attrs, index: offset }) => {
+    if (insideRanges(offset, fences)) return null;
+    const from   = xmlAttr(attrs, 'from') ?? '';
+    const id     = xmlAttr(attrs, 'element-id');
+    const target = id ? `${from}#${id}` : from;
+    const report = (message: string) => {
+      problems.push({ file, line: lineAt(md, offset), target, message });
+      return '';
+    };
+
+    if (!from) return report('<include> without a "from" attribute');
+    const abs = [path.resolve(path.dirname(file), from), opts.topicsDir && path.resolve(opts.topicsDir, from)]
+      .find((p): p is string => !!p && fs.existsSync(p) && fs.statSync(p).isFile());
+    if (!abs) return report(`Included file not found: ${from}`);
+
+    const key = id ? `${abs}#${id}` : abs;
+    if (self.includes(key)) {
+      const chain = [...self, key].map(k => path.basename(k)).join(' → ');
+      return report(`Include cycle: ${chain}`);
+    }
+
+    const src      = fs.readFileSync(abs, 'utf8');
+    const fragment = id ? findElementById(src, id) : src;
+    if (fragment === null) return report(`No element with id "${id}" in ${from}`);
+
+    const nested = expandIncludes(fragment, abs, opts, [...self, key]);
+    problems.push(...nested.problems);
+    return nested.markdown;
+  }, sourceLines(md, file));
+
+  return { markdown: text, problems, lines };
+}
@@ -5,15 +5,33 @@ import remarkParse from 'remark-parse';
 import { visit } from 'unist-util-visit';
 import GithubSlugger from 'github-slugger';
 import { ValidationResult } from './types.ts';
+import { VARIABLE_RE } from './writerside-project.ts';
+import { expandIncludes } from './includes.ts';
+
+export interface MarkdownValidationOptions {
+  /** Writerside variable names; enables %var% checks */
+  variables?: Set<string>;
+  /** Topics root for <include from> paths */
+  topicsDir?: string;
+  /** c.list category ids; enables <seealso><category ref> checks */
+  categories?: Set<string>;
+}
 
 export async function validateMarkdown(
   filePath: string,
-  imagesDir?: string        // ← optional shared images folder
+  imagesDir?: string,       // ← optional shared images folder
+  opts: MarkdownValidationOptions = {}
 ): Promise<ValidationResult> {
+  const { variables, topicsDir, categories } = opts;
   const raw  = await fs.readFile(filePath, 'utf8');
   const tree = unified().use(remarkParse).parse(raw);
 
   const result: ValidationResult = { filePath, errors: [] };
+
+  /* -------- <include> targets (missing files / ids, cycles) -------- */
+  for (const p of expandIncludes(raw, filePath, { topicsDir }).problems) {
+    result.errors.push({ type: 'INCLUDE', target: p.target, message: `${p.message} (line ${p.line})` });
+  }
   const slugger        = new GithubSlugger();
   const headingAnchors = new Set<string>();
 
@@ -35,6 +53,14 @@ export async function validateMarkdown(
     if (node.type === 'image') {
       validateImage(node.url, filePath, result, imagesDir);
     }
+
+    if (variables && (node.type === 'text' || node.type === 'html')) {
+      validateVariables(node.value, variables, result);
+    }
+
+    if (categories && node.type === 'html') {
+      validateCategories(node.value, categories, result);
+    }
   });
 
   /* ✅ keep this log so callers print one line per file */
@@ -94,6 +120,20 @@ function validateImage(
 }
 
 
+function validateVariables(text: string, known: Set<string>, res: ValidationResult) {
+  for (const [, name] of text.matchAll(VARIABLE_RE)) {
+    if (known.has(name) || res.errors.some(e => e.type === 'VARIABLE' && e.target === name)) continue;
+    res.errors.push({ type: 'VARIABLE', target: name, message: `Undefined variable %${name}% (not in v.list or buildprofiles.xml)` });
+  }
+}
+
+function validateCategories(html: string, known: Set<string>, res: ValidationResult) {
+  for (const [, ref] of html.matchAll(/<category\b[^>]*?\sref\s*=\s*["']([^"']*)["']/g)) {
+    if (known.has(ref) || res.errors.some(e => e.type === 'CATEGORY' && e.target === ref)) continue;
+    res.errors.push({ type: 'CATEGORY', target: ref, message: `Unknown <seealso> category "${ref}" (not in c.list)` });
+  }
+}
+
 function validateAnchor(
   node: any,
   base: string,
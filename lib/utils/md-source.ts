@@ -0,0 +1,123 @@
+/**********************************************************************
+ * utils/md-source.ts
+ * Helpers for source-level Markdown handling: find fenced code blocks
+ * (so rewrites never touch code samples), read XML attributes, dedent
+ * XML-nested Markdown, parse Writerside `{key="value"}` attribute lists
+ * and map lines of rewritten source back to the file they came from.
+ *********************************************************************/
+
+/** [start, end) offsets of every fenced code block (``` or ~~~, up to the closing fence or EOF). */
+export function fenceRanges(md: string): [number, number][] {
+  const out: [number, number][] = [];
+  const re = /^[ \t]{0,3}(`{3,}|~{3,})[^\n]*$/gm;
+  let open: { start: number; fence: string } | null = null;
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(md))) {
+    const fence = m[1];
+    if (!open) {
+      // ``` info strings may not contain backticks
+      if (fence[0] === '`' && m[0].slice(m[0].indexOf(fence) + fence.length).includes('`')) continue;
+      open = { start: m.index, fence };
+    } else if (fence[0] === open.fence[0] && fence.length >= open.fence.length && m[0].trim() === fence) {
+      out.push([open.start, m.index + m[0].length]);
+      open = null;
+    }
+  }
+  if (open) out.push([open.start, md.length]);
+  return out;
+}
+
+export const insideRanges = (pos: number, ranges: [number, number][]) =>
+  ranges.some(([s, e]) => pos >= s && pos < e);
+
+/** Remove the indentation shared by all non-blank lines (XML-nested Markdown would become code blocks). */
+export function dedent(s: string): string {
+  const lines = s.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n');
+  const indent = Math.min(...lines.filter(l => l.trim()).map(l => /^[ \t]*/.exec(l)![0].length));
+  return Number.isFinite(indent) ? lines.map(l => l.slice(indent)).join('\n') : '';
+}
+
+/** Value of attribute `name` in an XML attribute string (`from="a.md" element-id='x'`). */
+export function xmlAttr(attrs: string, name: string): string | undefined {
+  const m = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attrs);
+  return m ? (m[1] ?? m[2]) : undefined;
+}
+
+/** 1-based line number of an offset. */
+export const lineAt = (md: string, pos: number) => md.slice(0, pos).split('\n').length;
+
+/** Origin of a line of rewritten source: file and 1-based line. */
+export interface SourceLine {
+  file: string;
+  line: number;
+}
+
+/** Line map of unchanged source: line i of `md` comes from line i of `file`. */
+export const sourceLines = (md: string, file: string): SourceLine[] =>
+  md.split('\n').map((_, i) => ({ file, line: i + 1 }));
+
+/**
+ * String#replace over `src` (global `re`) that also maps every output line
+ * back through `origin` (one entry per line of `src`). Unchanged text (and
+ * matches the callback returns null for) keeps its lines; the lines of a
+ * replacement come from the line its match starts on, or from `lines`
+ * (0-based lines of `src`, one per line of `text`).
+ */
+export function replaceWithLines(
+  src: string,
+  re: RegExp,
+  replace: (m: RegExpExecArray) => string | { text: string; lines: number[] } | null,
+  origin: SourceLine[],
+): { text: string; lines: SourceLine[] } {
+  const out = [''];
+  const lines = [origin[0]];
+  const append = (text: string, lineOf: (k: number) => number) => {
+    const parts = text.split('\n');
+    out[out.length - 1] += parts[0];
+    for (let k = 1; k < parts.length; k++) {
+      out.push(parts[k]);
+      lines.push(origin[lineOf(k)]);
+    }
+  };
+  const keep = (from: number, to: number) => {
+    const first = lineAt(src, from) - 1;
+    append(src.slice(from, to), k => first + k);
+  };
+
+  // own copy: callbacks may recurse with the same (module-level) regex
+  const g = new RegExp(re.source, re.flags);
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = g.exec(src))) {
+    const end = m.index + m[0].length;
+    keep(last, m.index);
+    const r = replace(m);
+    if (r === null) keep(m.index, end);
+    else if (typeof r === 'string') {
+      const start = lineAt(src, m.index) - 1;
+      append(r, () => start);
+    } else append(r.text, k => r.lines[k]);
+    last = end;
+    if (!m[0]) g.lastIndex++;
+  }
+  keep(last, src.length);
+  return { text: out.join('\n'), lines };
+}
+
+/**
+ * Writerside attribute list `{key="value" key2='v' flag}` → record (bare flags
+ * are 'true'). Returns null when `s` is not exactly one attribute list.
+ */
+export function parseAttributeList(s: string): Record<string, string> | null {
+  const m = /^\s*\{([^{}]*)\}\s*$/.exec(s);
+  if (!m) return null;
+  const out: Record<string, string> = {};
+  const re = /([A-Za-z_][\w-]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'}]+)))?|(\S+)/g;
+  let a: RegExpExecArray | null;
+  while ((a = re.exec(m[1]))) {
+    if (a[5]) return null;                     // not attribute syntax (e.g. `{ a + b }`)
+    out[a[1]] = a[2] ?? a[3] ?? a[4] ?? 'true';
+  }
+  return Object.keys(out).length ? out : null;
+}
@@ -3,6 +3,7 @@ import * as fsp from "node:fs/promises";
 import * as path from "node:path";
 import * as os from "node:os";
 import process from "node:process";
+import type { Browser } from "puppeteer";
 
 const isDeno =
   typeof (globalThis as any).Deno !== "undefined" &&
@@ -63,15 +64,90 @@ export async function runMermaidCli(args: string[]): Promise<void> {
   }
 }
 
-/**
- * Render a Mermaid definition string to a target file (svg/png/pdf/webp)
- * by writing a temp `.mmd` and invoking mmdc.
- */
-export async function renderMermaidDefinitionToFile(
-  definition: string,
-  outFile: string,
-  opts: MermaidCliOptions = {},
-): Promise<void> {
+/* ────────── persistent renderer (JS API; Puppeteer-backed) ────────── */
+
+const TRUTHY = new Set(["1", "true", "on", "yes"]);
+const cliFallbackEnabled = () =>
+  TRUTHY.has(String(process.env.AUTHORD_MERMAID_FALLBACK_CLI ?? "").trim().toLowerCase());
+
+/** At most this many diagrams render at once (pages open in the shared browser). */
+const maxParallel = () => Math.max(1, Number(process.env.AUTHORD_MERMAID_CONCURRENCY) || 4);
+
+let browser: Promise<Browser> | null = null;
+let active = 0;
+const waiting: (() => void)[] = [];
+
+/** The run's headless Chromium, launched on first use; a failed launch is retried by the next diagram. */
+function sharedBrowser(): Promise<Browser> {
+  if (!browser) {
+    const launch = (async () => {
+      const { default: puppeteer } = await import("puppeteer");
+      return puppeteer.launch({
+        headless: true,
+        args: ["--no-sandbox", "--disable-setuid-sandbox"],
+      });
+    })();
+    launch.catch(() => { if (browser === launch) browser = null; });
+    browser = launch;
+  }
+  return browser;
+}
+
+/** Run `task` once fewer than AUTHORD_MERMAID_CONCURRENCY tasks are running (exported for tests). */
+export async function limited<T>(task: () => Promise<T>): Promise<T> {
+  if (active < maxParallel()) active++;
+  else await new Promise<void>((resolve) => waiting.push(resolve)); // slot handed over on release
+  try {
+    return await task();
+  } finally {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  }
+}
+
+async function renderWithBrowser(definition: string, outFile: string, opts: MermaidCliOptions) {
+  const { renderMermaid } = await import("@mermaid-js/mermaid-cli");
+  const config = opts.configFile ? JSON.parse(await fsp.readFile(opts.configFile, "utf8")) : {};
+  const format = path.extname(outFile).toLowerCase() === ".svg" ? "svg" : "png";
+  const { data } = await limited(async () =>
+    renderMermaid(await sharedBrowser(), definition, format, {
+      viewport: {
+        width: opts.width ?? 800,
+        height: opts.height ?? 600,
+        deviceScaleFactor: opts.scale ?? 1,
+      },
+      backgroundColor: opts.backgroundColor ?? "white",
+      mermaidConfig: opts.theme ? { ...config, theme: opts.theme } : config,
+    })
+  );
+  await fsp.writeFile(outFile, data);
+}
+
+/** Installed @mermaid-js/mermaid-cli version (part of the diagram cache key); '' when unknown. */
+export async function mermaidVersion(): Promise<string> {
+  try {
+    const pkg = new URL("../package.json", import.meta.resolve("@mermaid-js/mermaid-cli"));
+    return String(JSON.parse(await fsp.readFile(pkg, "utf8")).version ?? "");
+  } catch {
+    return "";
+  }
+}
+
+/** Close the shared browser; call once at the end of a run. */
+export async function closeMermaidRenderer(): Promise<void> {
+  const pending = browser;
+  browser = null;
+  if (!pending) return;
+  try {
+    await (await pending).close();
+  } catch {
+    // launch failed: nothing to close
+  }
+}
+
+/** One-off render through the mmdc executable (temp `.mmd` file). */
+async function renderWithCli(definition: string, outFile: string, opts: MermaidCliOptions) {
   const tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), "mmd-"));
   const inFile = path.join(tmpDir, "diagram.mmd");
   await fsp.writeFile(inFile, new TextEncoder().encode(definition));
@@ -84,3 +160,21 @@ export async function renderMermaidDefinitionToFile(
     await fsp.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
   }
 }
+
+/**
+ * Render a Mermaid definition string to a PNG or SVG file (by extension)
+ * with the shared browser; falls back to mmdc when
+ * AUTHORD_MERMAID_FALLBACK_CLI is set.
+ */
+export async function renderMermaidDefinitionToFile(
+  definition: string,
+  outFile: string,
+  opts: MermaidCliOptions = {},
+): Promise<void> {
+  try {
+    await renderWithBrowser(definition, outFile, opts);
+  } catch (err) {
+    if (!cliFallbackEnabled()) throw err;
+    await renderWithCli(definition, outFile, opts);
+  }
+}
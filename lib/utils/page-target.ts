@@ -0,0 +1,88 @@
+/**********************************************************************
+ * utils/page-target.ts
+ * Resolve the page a publisher writes into:
+ *   --page-id                 → that page (must exist)
+ *   --space [+ --parent-id]   → state file id, else title lookup,
+ *                               else create (id written back to state)
+ *********************************************************************/
+
+import {
+  createPage,
+  findPageById,
+  findPageByTitle,
+  getPageWithVersion,
+} from './confluence-utils.ts';
+import { pageStateKey, readState, writeState } from './state.ts';
+import { readProjectInstances, selectInstances } from './topic-order.ts';
+import type { ConfluenceCfg, PageInfo, PageTarget } from './types.ts';
+
+/** Title used with --space when --title is not given: name of the selected (else first) instance. */
+export async function defaultProjectTitle(rootDir: string, instance?: string): Promise<string> {
+  const instances = await readProjectInstances(rootDir);
+  const name = selectInstances(instances ?? [], instance).find(i => i.name)?.name;
+  if (!name) throw new Error('Missing required option: title (no instance name to default to)');
+  return name;
+}
+
+/**
+ * Existing page for the target, or undefined when it has to be created
+ * (only possible with spaceKey). Throws when neither pageId nor spaceKey is set.
+ * With dryRun the state file is read but never written.
+ */
+export async function findTargetPage(
+  cfg: ConfluenceCfg,
+  rootDir: string,
+  target: PageTarget,
+  { dryRun = false }: { dryRun?: boolean } = {},
+): Promise<PageInfo | undefined> {
+  if (target.pageId) {
+    console.log(`🔍 Validating provided --page-id "${target.pageId}"…`);
+    return getPageWithVersion(cfg, target.pageId);
+  }
+  if (!target.spaceKey) {
+    throw new Error('Missing required option: pageId or spaceKey');
+  }
+
+  const title = target.title || await defaultProjectTitle(rootDir, target.instance);
+  const key   = pageStateKey(cfg.baseUrl, target.spaceKey, title);
+  const state = await readState(rootDir);
+
+  const known = state.pages[key];
+  if (known) {
+    const page = await findPageById(cfg, known.id);
+    if (page) return page;
+    console.log(`ℹ️ Page ${known.id} from state no longer exists – looking up “${title}” again.`);
+    delete state.pages[key];
+    if (!dryRun) await writeState(rootDir, state);
+  }
+
+  console.log(`🔍 Looking up “${title}” in space ${target.spaceKey}…`);
+  const found = await findPageByTitle(cfg, target.spaceKey, title);
+  if (found) {
+    state.pages[key] = { id: found.id, spaceKey: target.spaceKey, title };
+    if (!dryRun) await writeState(rootDir, state);
+  }
+  return found;
+}
+
+/** Create the target page in its space and record its id in the state file. */
+export async function createTargetPage(
+  cfg: ConfluenceCfg,
+  rootDir: string,
+  target: PageTarget,
+  storageHtml: string,
+): Promise<{ id: string; title: string; version: number }> {
+  if (!target.spaceKey) {
+    throw new Error('Cannot create a page without spaceKey');
+  }
+  const title   = target.title || await defaultProjectTitle(rootDir, target.instance);
+  const created = await createPage(cfg, target.spaceKey, target.parentId, title, storageHtml);
+
+  const state = await readState(rootDir);
+  state.pages[pageStateKey(cfg.baseUrl, target.spaceKey, title)] =
+    { id: created.id, spaceKey: target.spaceKey, title };
+  await writeState(rootDir, state);
+
+  console.log(`➕ Created “${created.title}” (id ${created.id}) in space ${target.spaceKey}`);
+  return created;
+}
@@ -0,0 +1,76 @@
+/**********************************************************************
+ * utils/publish-utils.ts
+ * Helpers shared by the publishers: content hash, attachment sync
+ * and manual-edit detection.
+ *********************************************************************/
+
+import path           from 'node:path';
+import { createHash } from 'node:crypto';
+import { Buffer }     from 'node:buffer';
+
+import { getRemoteProperty, listAttachments, uploadImages } from './confluence-utils.ts';
+import type { ChildPage, ConfluenceCfg } from './types.ts';
+
+export const sha256 = (b: Buffer) => createHash('sha256').update(b).digest('hex');
+
+/** Hash of a storage body, as stored in the `exportHash` page property. */
+export const storageHash = (storageHtml: string) => sha256(Buffer.from(storageHtml));
+
+export const extractFilenames = (xhtml: string): string[] => {
+  const out: string[] = [];
+  const re = /ri:filename="([^"]+)"/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xhtml))) out.push(m[1]);
+  return out;
+};
+
+/** Attachments referenced by the storage body that the page does not have yet. */
+export async function missingAttachments(
+  cfg: ConfluenceCfg,
+  pageId: string,
+  storageHtml: string,
+): Promise<string[]> {
+  const need = extractFilenames(storageHtml);
+  const have = await listAttachments(cfg, pageId);
+  return [...new Set(need.filter(f => !have.has(f)))];
+}
+
+export async function uploadAttachments(
+  cfg: ConfluenceCfg,
+  pageId: string,
+  imgDir: string,
+  files: string[],
+): Promise<void> {
+  await Promise.all(files.map(f => uploadImages(cfg, pageId, path.join(imgDir, f))));
+}
+
+/* ───────── manual-edit detection ───────── */
+
+export interface ManualEdit {
+  /** Version recorded in `exportVersion` at the last publish */
+  publishedVersion: number;
+  currentVersion: number;
+  editedBy: string;
+  editedAt: string;
+}
+
+/** Edits made in Confluence since our last publish: current version is past the recorded `exportVersion`. */
+export async function findManualEdit(cfg: ConfluenceCfg, page: ChildPage): Promise<ManualEdit | undefined> {
+  const recorded = await getRemoteProperty(cfg, page.id, 'exportVersion');
+  const value = String(recorded?.value ?? '').trim();
+  // Pages published before exportVersion existed (or with a garbled value) cannot be checked
+  if (!/^\d+$/.test(value)) return undefined;
+  const publishedVersion = Number(value);
+  const currentVersion = page.nextVersion - 1;
+  if (currentVersion <= publishedVersion) return undefined;
+  return {
+    publishedVersion,
+    currentVersion,
+    editedBy: page.editedBy ?? 'unknown user',
+    editedAt: page.editedAt ?? 'unknown time',
+  };
+}
+
+export const describeManualEdit = (page: ChildPage, e: ManualEdit) =>
+  `“${page.title}” (id ${page.id}) was edited in Confluence since the last publish: ` +
+  `version ${e.currentVersion} by ${e.editedBy} at ${e.editedAt} (published version: ${e.publishedVersion}).`;
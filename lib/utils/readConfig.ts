@@ -2,6 +2,9 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { z } from 'zod';
 
+import { DiagramsConfigSchema } from './diagrams.ts';
+import { UsersSchema } from './users.ts';
+
 // 1. Recursive TOC element: { topic: string; children: TocElement[] }
 const TocElementSchema: z.ZodType<{
   topic: string;
@@ -38,6 +41,8 @@ export const ConfigSchema = z.object({
       "web-path": z.string(),
     }),
   instances: z.array(InstanceSchema).optional(),
+  users: UsersSchema.optional(),
+  diagrams: DiagramsConfigSchema.optional(),
 });
 
 export type LiteConfig = z.infer<typeof ConfigSchema>;
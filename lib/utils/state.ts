@@ -0,0 +1,42 @@
+/**********************************************************************
+ * utils/state.ts
+ * Local publish state (.authord-state.json in the project root).
+ * Remembers page ids created/found by space + title, so later runs
+ * update the same page instead of creating duplicates.
+ *********************************************************************/
+
+import fs   from 'node:fs/promises';
+import fss  from 'node:fs';
+import path from 'node:path';
+
+export const STATE_FILE = '.authord-state.json';
+
+export interface PageStateEntry {
+  id: string;
+  spaceKey: string;
+  title: string;
+}
+
+export interface PublishState {
+  pages: Record<string, PageStateEntry>;
+}
+
+/** Key of a page in the state file: one entry per Confluence instance + space + title. */
+export const pageStateKey = (baseUrl: string, spaceKey: string, title: string) =>
+  `${baseUrl.replace(/\/+$/, '')}|${spaceKey}|${title}`;
+
+export async function readState(rootDir: string): Promise<PublishState> {
+  const p = path.join(rootDir, STATE_FILE);
+  if (!fss.existsSync(p)) return { pages: {} };
+  try {
+    const parsed = JSON.parse(await fs.readFile(p, 'utf8'));
+    return { pages: parsed?.pages ?? {} };
+  } catch (err) {
+    throw new Error(`Invalid state file ${p}: ${(err as Error).message}`);
+  }
+}
+
+export async function writeState(rootDir: string, state: PublishState): Promise<void> {
+  const p = path.join(rootDir, STATE_FILE);
+  await fs.writeFile(p, JSON.stringify(state, null, 2) + '\n', 'utf8');
+}
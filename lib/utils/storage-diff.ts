@@ -0,0 +1,199 @@
+/**********************************************************************
+ * utils/storage-diff.ts
+ * Structure-aware diff of two storage-XHTML bodies (for --dry-run).
+ *
+ * Both sides are normalized to one token per line before diffing:
+ *  - each start/end tag on its own line, indented by nesting depth
+ *  - attributes sorted; xmlns:* and ac:macro-id dropped
+ *  - the namespace wrapper <div xmlns:ac ...> removed
+ *  - text whitespace collapsed, basic entities decoded
+ * so serializer noise (attribute order, <br/> vs <br />, wrapping)
+ * does not show up as a change.
+ *********************************************************************/
+
+const IGNORED_ATTRS = new Set(['ac:macro-id']);
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&apos;': "'", '&nbsp;': ' ',
+};
+const decode = (s: string) =>
+  s.replace(/&(?:amp|lt|gt|quot|#39|apos|nbsp);/g, m => ENTITIES[m])
+   .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+   .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)));
+
+function normalizeAttrs(raw: string): string {
+  const attrs: string[] = [];
+  const re = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw))) {
+    const name = m[1].toLowerCase();
+    if (name.startsWith('xmlns') || IGNORED_ATTRS.has(name)) continue;
+    const val = decode(m[2] ?? m[3] ?? m[4] ?? name);
+    attrs.push(`${name}="${val}"`);
+  }
+  return attrs.sort().join(' ');
+}
+
+/** Normalize storage XHTML into comparable lines. */
+export function normalizeStorage(xhtml: string): string[] {
+  const out: string[] = [];
+  const re = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--([\s\S]*?)-->|<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g;
+  const stack: boolean[] = []; // per open tag: was it emitted?
+  let depth = 0;
+  let m: RegExpExecArray | null;
+
+  const pad = () => '  '.repeat(depth);
+  const text = (s: string) => {
+    const t = s.replace(/\s+/g, ' ').trim();
+    if (t) out.push(pad() + t);
+  };
+
+  while ((m = re.exec(xhtml))) {
+    const [, cdata, comment, closing, tag, attrs, selfClose, txt] = m;
+    if (cdata !== undefined) {
+      // CDATA (code macro bodies): keep line structure, it is meaningful
+      for (const line of cdata.split('\n')) out.push(pad() + '│ ' + line.trimEnd());
+    } else if (comment !== undefined) {
+      text(`<!--${comment.replace(/\s+/g, ' ').trim()}-->`);
+    } else if (txt !== undefined) {
+      text(decode(txt));
+    } else if (closing) {
+      const emitted = stack.pop();
+      if (emitted) {
+        depth = Math.max(0, depth - 1);
+        out.push(`${pad()}</${tag.toLowerCase()}>`);
+      }
+    } else {
+      const name = tag.toLowerCase();
+      const a = normalizeAttrs(attrs);
+      // Drop the namespace wrapper added by rehypeConfluenceStorage
+      const isWrapper = name === 'div' && /xmlns:/.test(attrs);
+      if (selfClose) {
+        if (!isWrapper) out.push(`${pad()}<${name}${a ? ' ' + a : ''}/>`);
+        continue;
+      }
+      stack.push(!isWrapper);
+      if (!isWrapper) {
+        out.push(`${pad()}<${name}${a ? ' ' + a : ''}>`);
+        depth++;
+      }
+    }
+  }
+  return out;
+}
+
+/* ───────── line diff (linear-space Myers, O((N+M)·D) time, O(N+M) memory) ───────── */
+
+export type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+/** Diff a[aLo, aHi) against b[bLo, bHi), appending to `ops`. */
+function diffRange(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number, ops: DiffOp[]) {
+  // Common prefix / suffix need no search
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) { ops.push({ type: ' ', line: a[aLo++] }); bLo++; }
+  let tail = 0;
+  while (aLo < aHi - tail && bLo < bHi - tail && a[aHi - 1 - tail] === b[bHi - 1 - tail]) tail++;
+  aHi -= tail; bHi -= tail;
+
+  if (aLo === aHi) {
+    for (let y = bLo; y < bHi; y++) ops.push({ type: '+', line: b[y] });
+  } else if (bLo === bHi) {
+    for (let x = aLo; x < aHi; x++) ops.push({ type: '-', line: a[x] });
+  } else {
+    const [x, y] = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    if ((x === aLo && y === bLo) || (x === aHi && y === bHi)) {
+      // no split found: the ranges share nothing
+      for (let i = aLo; i < aHi; i++) ops.push({ type: '-', line: a[i] });
+      for (let i = bLo; i < bHi; i++) ops.push({ type: '+', line: b[i] });
+    } else {
+      diffRange(a, aLo, x, b, bLo, y, ops);
+      diffRange(a, x, aHi, b, y, bHi, ops);
+    }
+  }
+
+  for (let i = aHi; i < aHi + tail; i++) ops.push({ type: ' ', line: a[i] });
+}
+
+/**
+ * Run the forward and backward searches until they overlap and return
+ * where they meet (absolute indices); both halves of an optimal path
+ * pass through that point.
+ */
+function middleSnake(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number): [number, number] {
+  const n = aHi - aLo, m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const off = maxD + 1;
+  const vf = new Int32Array(2 * off + 1).fill(-1);   // furthest x per diagonal k = x - y, from the start
+  const vb = new Int32Array(2 * off + 1).fill(-1);   // same, from the end (x counted backwards)
+  vf[off + 1] = 0;
+  vb[off + 1] = 0;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  // diagonals that ran off the grid are skipped from then on
+  let fStart = 0, fEnd = 0, bStart = 0, bEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + fStart; k <= d - fEnd; k += 2) {
+      let x = (k === -d || (k !== d && vf[off + k - 1] < vf[off + k + 1])) ? vf[off + k + 1] : vf[off + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) { x++; y++; }
+      vf[off + k] = x;
+      if (x > n) fEnd += 2;
+      else if (y > m) fStart += 2;
+      else if (odd) {
+        const kb = delta - k;
+        if (kb >= -maxD && kb <= maxD && vb[off + kb] !== -1 && x >= n - vb[off + kb]) return [aLo + x, bLo + y];
+      }
+    }
+    for (let k = -d + bStart; k <= d - bEnd; k += 2) {
+      let x = (k === -d || (k !== d && vb[off + k - 1] < vb[off + k + 1])) ? vb[off + k + 1] : vb[off + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) { x++; y++; }
+      vb[off + k] = x;
+      if (x > n) bEnd += 2;
+      else if (y > m) bStart += 2;
+      else if (!odd) {
+        const kf = delta - k;
+        if (kf >= -maxD && kf <= maxD && vf[off + kf] !== -1) {
+          const xf = vf[off + kf];
+          if (xf >= n - x) return [aLo + xf, bLo + xf - kf];
+        }
+      }
+    }
+  }
+  return [aLo, bLo];
+}
+
+/** Unified-style rendering: only changed lines plus `context` lines around them. */
+export function formatDiff(ops: DiffOp[], context = 3): string {
+  const keep = new Array(ops.length).fill(false);
+  ops.forEach((op, i) => {
+    if (op.type === ' ') return;
+    for (let j = Math.max(0, i - context); j <= Math.min(ops.length - 1, i + context); j++) keep[j] = true;
+  });
+
+  const out: string[] = [];
+  let skipped = false;
+  ops.forEach((op, i) => {
+    if (!keep[i]) { skipped = true; return; }
+    if (skipped && out.length) out.push('  …');
+    skipped = false;
+    out.push(`${op.type} ${op.line}`);
+  });
+  return out.join('\n');
+}
+
+/** Normalize both bodies and diff them (live → generated). */
+export function diffStorage(live: string, generated: string): { ops: DiffOp[]; added: number; removed: number } {
+  const ops = diffLines(normalizeStorage(live), normalizeStorage(generated));
+  return {
+    ops,
+    added:   ops.filter(o => o.type === '+').length,
+    removed: ops.filter(o => o.type === '-').length,
+  };
+}
@@ -0,0 +1,104 @@
+/**********************************************************************
+ * utils/tabs.ts
+ * Writerside <tabs><tab title="…">…</tab></tabs> at the source level
+ * (before parsing), outside fenced code. Each block becomes a pair of
+ * container directives, so the tab bodies are parsed as Markdown:
+ *
+ *   ::::tabs
+ *
+ *   :::tab{title="macOS"}
+ *   …dedented body…
+ *   :::
+ *
+ *   ::::
+ *
+ * <code-block lang="…"> inside a tab becomes a fenced code block
+ * (CDATA unwrapped, entities decoded). remark-writerside-tabs marks
+ * the directives; rehypeConfluenceStorage renders them.
+ *
+ * tabsToDirectivesWithLines also maps every output line back to its
+ * source line (a fence made from a <code-block> to the <code-block>).
+ *********************************************************************/
+
+import { dedent, fenceRanges, insideRanges, lineAt, replaceWithLines, type SourceLine, sourceLines, xmlAttr } from './md-source.ts';
+
+const ATTRS = `((?:[^>"']|"[^"]*"|'[^']*')*?)`;
+const TABS_RE       = new RegExp(`<tabs\\b${ATTRS}>([\\s\\S]*?)<\\/tabs\\s*>`, 'g');
+const TAB_RE        = new RegExp(`<tab\\b${ATTRS}>([\\s\\S]*?)<\\/tab\\s*>`, 'g');
+const CODE_BLOCK_RE = new RegExp(`<code-block\\b${ATTRS}>([\\s\\S]*?)<\\/code-block\\s*>`, 'g');
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/** <code-block> body → code text: CDATA sections unwrapped, otherwise entities decoded. */
+function codeText(body: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(body);
+  return dedent(cdata ? cdata[1] : body.replace(/&(lt|gt|amp|quot|apos);/g, (_, e: string) => ENTITIES[e]));
+}
+
+/** Fenced block for a <code-block>, indented like the line it replaces. */
+function fence(attrs: string, body: string, indent: string): string {
+  const code  = codeText(body);
+  const ticks = '`'.repeat(Math.max(3, ...(code.match(/`+/g) ?? []).map(r => r.length + 1)));
+  const lang  = (xmlAttr(attrs, 'lang') ?? '').trim().split(/\s+/)[0];
+  return [`${ticks}${lang}`, ...code.split('\n'), ticks].map(l => indent + l).join('\n');
+}
+
+/**
+ * Tab body → Markdown: dedented, <code-block>s turned into fences.
+ * `lines` holds the 0-based body line of every output line.
+ */
+function tabMarkdown(body: string): { text: string; lines: number[] } {
+  const blocks: [string, string][] = [];
+  const marked = replaceWithLines(body, CODE_BLOCK_RE, ({ 1: attrs, 2: code }) => {
+    blocks.push([attrs, code]);
+    return `@@CODEBLOCK|${blocks.length - 1}@@`;
+  }, sourceLines(body, ''));
+  // dedent() drops leading blank lines
+  const dropped = (/^\s*\n/.exec(marked.text)?.[0].match(/\n/g) ?? []).length;
+  const placeholder = /^([ \t]*)(.*?)@@CODEBLOCK\|(\d+)@@(.*)$/gm;
+  const { text, lines } = replaceWithLines(dedent(marked.text), placeholder, ({ 1: indent, 2: before, 3: i, 4: after }) => {
+    const [attrs, code] = blocks[Number(i)];
+    const parts = ['', fence(attrs, code, indent), ''];
+    if (before.trim()) parts.unshift(indent + before);
+    if (after.trim()) parts.push(indent + after);
+    return parts.join('\n');
+  }, marked.lines.slice(dropped));
+  return { text, lines: lines.map(l => l.line - 1) };
+}
+
+const quoteAttr = (s: string) => s.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/** Rewrite every <tabs> block in `md` into tabs/tab container directives. */
+export const tabsToDirectives = (md: string): string =>
+  tabsToDirectivesWithLines(md, sourceLines(md, '')).markdown;
+
+/** tabsToDirectives, mapping the output lines through `origin` (one entry per line of `md`). */
+export function tabsToDirectivesWithLines(md: string, origin: SourceLine[]): { markdown: string; lines: SourceLine[] } {
+  if (!md.includes('<tabs')) return { markdown: md, lines: origin };
+  const fences = fenceRanges(md);
+
+  const { text, lines } = replaceWithLines(md, TABS_RE, ({ 0: whole, 2: inner, index: offset }) => {
+    if (insideRanges(offset, fences)) return null;
+    const at    = (pos: number) => lineAt(md, pos) - 1;
+    const first = at(offset);
+    const last  = at(offset + whole.length);
+    const innerStart = offset + whole.lastIndexOf('</tabs') - inner.length;
+
+    // [text, 0-based line of md] for every output line
+    const out: [string, number][] = [['', first], ['::::tabs', first], ['', first]];
+    for (const m of inner.matchAll(TAB_RE)) {
+      const [tab, attrs, body] = m;
+      const start = innerStart + m.index!;
+      const bodyLine = at(start + tab.lastIndexOf('</tab') - body.length);
+      const content  = tabMarkdown(body);
+      if (out.length > 3) out.push(['', at(start)]);
+      out.push([`:::tab{title="${quoteAttr(xmlAttr(attrs, 'title') ?? '')}"}`, at(start)]);
+      content.text.split('\n').forEach((l, k) => out.push([l, bodyLine + content.lines[k]]));
+      out.push([':::', at(start + tab.length)]);
+    }
+    out.push(['', last], ['::::', last], ['', last]);
+    return { text: out.map(([l]) => l).join('\n'), lines: out.map(([, n]) => n) };
+  }, origin);
+
+  return { markdown: text, lines };
+}
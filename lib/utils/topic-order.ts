@@ -0,0 +1,303 @@
+/**********************************************************************
+ * utils/topic-order.ts
+ * Topic ordering shared by the single-page and page-tree publishers.
+ *
+ * • Writerside: writerside.cfg → <instance src="*.tree"> → toc-element
+ * • Authord:    authord.config.json → instances[*].toc-elements
+ * • Else, alphabetical scan of the topics dir
+ *
+ * Both project types are normalized to InstanceProfile[] first, then
+ * either flattened (DFS, start-page first) or kept as a TopicNode tree.
+ * A TopicSelection narrows this to one instance (--instance) and opts
+ * in to appending orphan topics (--orphans).
+ *********************************************************************/
+
+import fs             from 'node:fs/promises';
+import fss            from 'node:fs';
+import path           from 'node:path';
+import { XMLParser }  from 'fast-xml-parser';
+
+import type { InstanceProfile, OrderedTopic, TocElement, TopicNode, TopicSelection } from './types.ts';
+
+const normalize = <T>(x: T | T[] | undefined | null): T[] =>
+  !x ? [] : Array.isArray(x) ? x : [x];
+
+const fileExists = (p: string) => {
+  try { return fss.existsSync(p); } catch { return false; }
+};
+
+const isTopicFile = (p: string) => fileExists(p) && p.endsWith('.md');
+
+export async function listAllMdFilesRecursive(dir: string): Promise<string[]> {
+  const out: string[] = [];
+  async function walk(d: string) {
+    const entries = await fs.readdir(d, { withFileTypes: true });
+    for (const e of entries) {
+      const abs = path.join(d, e.name);
+      if (e.isDirectory()) await walk(abs);
+      else if (e.isFile() && e.name.endsWith('.md')) out.push(abs);
+    }
+  }
+  if (fileExists(dir)) await walk(dir);
+  // Sort by path for deterministic order when appended
+  out.sort((a, b) => a.localeCompare(b));
+  return out;
+}
+
+/* ───────── instance readers ───────── */
+
+/** Writerside: parse writerside.cfg and every referenced *.tree into InstanceProfile[]. */
+export async function readWritersideInstances(rootDir: string): Promise<InstanceProfile[] | null> {
+  const cfgPath = path.join(rootDir, 'writerside.cfg');
+  if (!fileExists(cfgPath)) return null;
+
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' });
+  const cfgXml = parser.parse(await fs.readFile(cfgPath, 'utf8'));
+  const ihp = cfgXml?.ihp;
+  if (!ihp) return null;
+
+  const instanceDecls = normalize(ihp.instance);
+  if (!instanceDecls.length) return null;
+
+  type TocXml = { '@_topic'?: string; '@_toc-title'?: string; 'toc-element'?: TocXml | TocXml[] };
+  const toToc = (node: TocXml): TocElement => ({
+    topic:    String(node['@_topic'] ?? ''),
+    title:    node['@_toc-title'],
+    children: normalize(node['toc-element']).map(toToc),
+  });
+
+  const out: InstanceProfile[] = [];
+  for (const inst of instanceDecls) {
+    const srcRel: string | undefined = inst?.['@_src'];
+    if (!srcRel) continue;
+    const treePath = path.resolve(rootDir, srcRel);
+    if (!fileExists(treePath)) continue;
+
+    const treeXml = parser.parse(await fs.readFile(treePath, 'utf8'));
+    const ip = treeXml?.['instance-profile'];
+    if (!ip) continue;
+
+    out.push({
+      id:             String(ip['@_id'] ?? ''),
+      name:           String(ip['@_name'] ?? ''),
+      'start-page':   ip['@_start-page'],
+      'toc-elements': normalize(ip['toc-element']).map(toToc),
+    });
+  }
+  return out;
+}
+
+/** Authord: instances/toc-elements straight from authord.config.json */
+export async function readAuthordInstances(rootDir: string): Promise<InstanceProfile[] | null> {
+  const jsonPath = path.join(rootDir, 'authord.config.json');
+  if (!fileExists(jsonPath)) return null;
+
+  // NOTE: readAuthordConfig should resolve relative to rootDir
+  const { readConfig: readAuthordConfig } = await import('./readConfig.ts');
+  const cfg = await readAuthordConfig(rootDir);
+  return (cfg.instances ?? []) as InstanceProfile[];
+}
+
+/* ───────── ordering ───────── */
+
+/** DFS document order: each instance's start-page first, then toc-elements. Duplicates are dropped. */
+export function orderTopics(instances: InstanceProfile[], mdDir: string): string[] {
+  const orderedRel: string[] = [];
+  const seen = new Set<string>();
+
+  for (const inst of instances) {
+    const startPage = inst['start-page'];
+    if (startPage && !seen.has(startPage)) {
+      orderedRel.push(startPage);
+      seen.add(startPage);
+    }
+
+    const stack = [...inst['toc-elements']].reverse(); // manual DFS using stack
+    while (stack.length) {
+      const node = stack.pop();
+      if (!node) continue;
+      if (node.topic && !seen.has(node.topic)) {
+        orderedRel.push(node.topic);
+        seen.add(node.topic);
+      }
+      const children = node.children ?? [];
+      // push in reverse so first child is processed first
+      for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+    }
+  }
+
+  // Map to absolute paths under mdDir and keep only existing
+  return orderedRel
+    .map(rel => path.resolve(mdDir, rel))
+    .filter(isTopicFile);
+}
+
+/**
+ * Keep the toc-element hierarchy. A start-page is only added (first, at root level)
+ * when no toc-element references it. Elements without an existing topic, and repeated
+ * topics, are dropped and their children lifted into their place.
+ */
+export function buildTopicTree(instances: InstanceProfile[], mdDir: string): TopicNode[] {
+  const seen = new Set<string>();
+  const out: TopicNode[] = [];
+
+  for (const inst of instances) {
+    const tocTopics = new Set<string>();
+    (function collect(els: TocElement[]) {
+      for (const el of els) {
+        if (el.topic) tocTopics.add(path.resolve(mdDir, el.topic));
+        collect(el.children ?? []);
+      }
+    })(inst['toc-elements']);
+
+    const startPage = inst['start-page'] ? path.resolve(mdDir, inst['start-page']) : '';
+    if (startPage && !tocTopics.has(startPage) && !seen.has(startPage) && isTopicFile(startPage)) {
+      seen.add(startPage);
+      out.push({ file: startPage, children: [] });
+    }
+    out.push(...preorder(inst['toc-elements']));
+  }
+  return out;
+
+  // Document order, so "first occurrence wins" matches orderTopics()
+  function preorder(els: TocElement[]): TopicNode[] {
+    const nodes: TopicNode[] = [];
+    for (const el of els) {
+      const abs = el.topic ? path.resolve(mdDir, el.topic) : '';
+      if (!abs || seen.has(abs) || !isTopicFile(abs)) {
+        nodes.push(...preorder(el.children ?? []));
+        continue;
+      }
+      seen.add(abs);
+      nodes.push({ file: abs, title: el.title, children: preorder(el.children ?? []) });
+    }
+    return nodes;
+  }
+}
+
+/** Depth-first pre-order flattening of a topic tree. */
+export function flattenTopicTree(nodes: TopicNode[]): string[] {
+  const out: string[] = [];
+  const visit = (n: TopicNode) => { out.push(n.file); n.children.forEach(visit); };
+  nodes.forEach(visit);
+  return out;
+}
+
+/* ───────── public resolvers ───────── */
+
+/**
+ * Keep only the instance with the given id (all instances when id is empty).
+ * Throws on an unknown id, listing the ids the project has.
+ */
+export function selectInstances(instances: InstanceProfile[], id?: string): InstanceProfile[] {
+  if (!id) return instances;
+  const picked = instances.filter(i => i.id === id);
+  if (!picked.length) {
+    const known = instances.map(i => i.id).filter(Boolean);
+    throw new Error(`Unknown instance "${id}" (available: ${known.length ? known.join(', ') : 'none'})`);
+  }
+  return picked;
+}
+
+/** Writerside: read topics in DFS document order from writerside.cfg → *.tree */
+export async function collectMdFromWriterside(rootDir: string, mdDir: string, instance?: string): Promise<string[] | null> {
+  const instances = await readWritersideInstances(rootDir);
+  return instances ? orderTopics(selectInstances(instances, instance), mdDir) : null;
+}
+
+/** Authord: read topics from instances/toc-elements (DFS) */
+export async function collectMdFromAuthord(rootDir: string, mdDir: string, instance?: string): Promise<string[] | null> {
+  const instances = await readAuthordInstances(rootDir);
+  return instances ? orderTopics(selectInstances(instances, instance), mdDir) : null;
+}
+
+/** Prefer Writerside instances, else Authord instances. */
+export async function readProjectInstances(rootDir: string): Promise<InstanceProfile[] | null> {
+  return (await readWritersideInstances(rootDir)) ?? (await readAuthordInstances(rootDir));
+}
+
+/**
+ * Final resolver: prefer Writerside tree order, else Authord, else alphabetical.
+ * `instance` restricts the order to one instance; orphans (topics no instance
+ * references) are only appended with `orphans: true`.
+ */
+export async function resolveMdInOrder(
+  rootDir: string,
+  mdDir: string,
+  selection: TopicSelection = {},
+): Promise<string[]> {
+  return (await resolveOrderedTopics(rootDir, mdDir, selection)).map(t => t.file);
+}
+
+/** resolveMdInOrder plus each topic's toc-element depth (0 = root level, orphans and start-page included). */
+export async function resolveOrderedTopics(
+  rootDir: string,
+  mdDir: string,
+  selection: TopicSelection = {},
+): Promise<OrderedTopic[]> {
+  const instances = await readProjectInstances(rootDir);
+  if (selection.instance && !instances) {
+    throw new Error(`Cannot select instance "${selection.instance}": project defines no instances`);
+  }
+  const selected = instances ? selectInstances(instances, selection.instance) : [];
+  const primary  = orderTopics(selected, mdDir);
+  const all      = await listAllMdFilesRecursive(mdDir);
+
+  if (!primary.length && !selection.instance) {
+    // Pure alphabetical if nothing else available
+    return all.map(file => ({ file, depth: 0 }));
+  }
+
+  const depths = new Map<string, number>();
+  (function visit(nodes: TopicNode[], depth: number) {
+    for (const n of nodes) { depths.set(n.file, depth); visit(n.children, depth + 1); }
+  })(buildTopicTree(selected, mdDir), 0);
+
+  const extras = orphansOf(instances ? orderTopics(instances, mdDir) : [], all);
+  reportOrphans(extras, selection.orphans);
+  return [...primary, ...(selection.orphans ? extras : [])]
+    .map(file => ({ file, depth: depths.get(file) ?? 0 }));
+}
+
+/** Tree resolver: same sources and selection as resolveMdInOrder; orphans become root-level leaves. */
+export async function resolveTopicTree(
+  rootDir: string,
+  mdDir: string,
+  selection: TopicSelection = {},
+): Promise<TopicNode[]> {
+  const instances = await readProjectInstances(rootDir);
+  if (selection.instance && !instances) {
+    throw new Error(`Cannot select instance "${selection.instance}": project defines no instances`);
+  }
+  const primary = instances ? buildTopicTree(selectInstances(instances, selection.instance), mdDir) : [];
+  const all     = await listAllMdFilesRecursive(mdDir);
+
+  if (!primary.length && !selection.instance) {
+    return all.map(file => ({ file, children: [] }));
+  }
+
+  const extras = orphansOf(instances ? orderTopics(instances, mdDir) : [], all);
+  reportOrphans(extras, selection.orphans);
+  return selection.orphans ? [...primary, ...extras.map(file => ({ file, children: [] }))] : primary;
+}
+
+/** Topics in `all` that no instance references (topics of other, unselected instances are not orphans). */
+function orphansOf(referenced: string[], all: string[]): string[] {
+  const referencedSet = new Set(referenced.map(p => path.resolve(p)));
+  return all.filter(p => !referencedSet.has(path.resolve(p)));
+}
+
+function reportOrphans(extras: string[], append?: boolean) {
+  if (!extras.length) return;
+  console.log(append
+    ? `ℹ️ ${extras.length} topic(s) not referenced by any tree were appended at the end.`
+    : `ℹ️ ${extras.length} topic(s) not referenced by any tree were left out (use --orphans to append them).`);
+}
+
+/** Page title for a topic: explicit toc title, else first `# ` heading, else file name. */
+export function topicTitle(md: string, file: string, tocTitle?: string): string {
+  if (tocTitle?.trim()) return tocTitle.trim();
+  const m = /^#[ \t]+(.+?)[ \t]*#*[ \t]*$/m.exec(md);
+  const h1 = m?.[1].replace(/\s*\{[^}]*\}\s*$/, '').trim();
+  return h1 || path.basename(file, '.md');
+}
@@ -16,6 +16,39 @@ export interface TocConfig {
     nodes: TreeNode[];// the toc-element tree
 }
 
+/** A topic in publish order, keeping the toc-element hierarchy. */
+export interface TopicNode {
+    file: string;             // absolute path to the topic .md
+    title?: string;           // toc-title override from the tree, if any
+    children: TopicNode[];
+}
+
+/** A topic in flattened publish order with its toc-element depth. */
+export interface OrderedTopic {
+    file: string;             // absolute path to the topic .md
+    depth: number;            // 0 = root-level toc-element (also start-page / orphans)
+}
+
+/** One topic handed to the transformer. */
+export interface TopicSource {
+    file: string;             // absolute path to the topic .md
+    markdown: string;
+    depth?: number;           // toc depth; headings are demoted by this much (see headingShift)
+}
+
+/** Non-fatal problem found while converting a topic (reported, never thrown). */
+export interface TransformWarning {
+    file: string;             // absolute path to the topic .md
+    line?: number;
+    message: string;
+}
+
+/** Confluence user an @mention links to (utils/users.ts); userkey wins when both are set. */
+export interface ConfluenceUser {
+    username?: string;
+    userkey?: string;
+}
+
 export interface TocElement {
     topic: string;
     title?: string;
@@ -61,10 +94,81 @@ export interface AttachmentResponse {
 }
 
 export interface PageHit { id: string; nextVersion: number; }
+export interface ChildPage extends PageHit {
+  title: string;
+  /** Author and time of the current version (expand=version) */
+  editedBy?: string;
+  editedAt?: string;
+}
+export interface PageInfo extends ChildPage { spaceKey: string; }
+
+/** How to locate the page to publish into: an explicit id, or space + title (found or created). */
+export interface PageTarget {
+  pageId?: string;
+  spaceKey?: string;
+  parentId?: string;
+  title?: string;
+  /** Instance whose name is the default title (first instance when unset). */
+  instance?: string;
+}
 export interface PropertyData { key: string; value: string; version: { number: number } }
 
 
-export interface PublishSingleOptions {
+/** How Writerside <tabs> are rendered: an expand macro or a titled panel per tab. */
+export type TabStyle = 'expand' | 'panel';
+
+/** Image format for rendered diagrams; 'svg' falls back to PNG per diagram (utils/diagrams.ts). */
+export type DiagramFormat = 'png' | 'svg';
+
+/** Which topics of a project to publish (utils/topic-order.ts). */
+export interface TopicSelection {
+  /** Only this instance (Writerside instance-profile id / Authord instance id); all instances when unset. */
+  instance?: string;
+  /** Append topics not referenced by any instance at the end (default: leave them out). */
+  orphans?: boolean;
+}
+
+export interface PublishSingleOptions extends TopicSelection {
+  /** Absolute or relative path to topics dir (resolved against rootDir if relative) */
+  md: string;
+  /** Absolute or relative path to images dir (resolved against rootDir if relative) */
+  images: string;
+
+  baseUrl: string;
+  basicAuth: string; // "user:pass"
+
+  /** ID of the Confluence page to update. Either this or spaceKey is required. */
+  pageId?: string;
+
+  /** Space to find (by title) or create the page in, when no pageId is given. */
+  spaceKey?: string;
+
+  /** Optional: parent page for a page created in spaceKey. */
+  parentId?: string;
+
+  /** Optional: override page title; defaults to existing title (or the project name when creating). */
+  title?: string;
+
+  /** Optional: print the storage diff, version and attachment uploads instead of writing anything. */
+  dryRun?: boolean;
+
+  /** Optional: overwrite the page even if it was edited in Confluence since the last publish. */
+  force?: boolean;
+
+  /** Optional: demote each topic's headings by its TOC depth, capped at h6 (default true). */
+  headingShift?: boolean;
+
+  /** Optional: how Writerside <tabs> are rendered (default 'expand'). */
+  tabs?: TabStyle;
+
+  /** Optional: fail instead of publishing diagrams that could not be rendered as code (default false). */
+  strictDiagrams?: boolean;
+
+  /** Optional: explicit project root directory; defaults to process.cwd(). */
+  rootDir?: string;
+}
+
+export interface PublishTreeOptions extends TopicSelection {
   /** Absolute or relative path to topics dir (resolved against rootDir if relative) */
   md: string;
   /** Absolute or relative path to images dir (resolved against rootDir if relative) */
@@ -73,19 +177,72 @@ export interface PublishSingleOptions {
   baseUrl: string;
   basicAuth: string; // "user:pass"
 
-  /** Mandatory: ID of the Confluence page to update. */
-  pageId: string;
+  /** ID of the Confluence page the topic pages are nested under. Either this or spaceKey is required. */
+  pageId?: string;
+
+  /** Space to find (by title) or create the root page in, when no pageId is given. */
+  spaceKey?: string;
 
-  /** Optional: override page title; defaults to existing title. */
+  /** Optional: parent page for a root page created in spaceKey. */
+  parentId?: string;
+
+  /** Optional: root page title used with spaceKey (defaults to the project name). */
   title?: string;
 
+  /** Optional: overwrite pages even if they were edited in Confluence since the last publish. */
+  force?: boolean;
+
+  /** Optional: how Writerside <tabs> are rendered (default 'expand'). */
+  tabs?: TabStyle;
+
+  /** Optional: fail instead of publishing diagrams that could not be rendered as code (default false). */
+  strictDiagrams?: boolean;
+
+  /** Optional: explicit project root directory; defaults to process.cwd(). */
+  rootDir?: string;
+}
+
+export interface ExportSingleOptions extends TopicSelection {
+  /** Absolute or relative path to topics dir (resolved against rootDir if relative) */
+  md: string;
+  /** Absolute or relative path to images dir (resolved against rootDir if relative) */
+  images: string;
+
+  /** Output directory for page.xhtml, attachments/ and manifest.json (created if missing). */
+  out: string;
+
+  /** Optional: demote each topic's headings by its TOC depth, capped at h6 (default true). */
+  headingShift?: boolean;
+
+  /** Optional: how Writerside <tabs> are rendered (default 'expand'). */
+  tabs?: TabStyle;
+
+  /** Optional: fail instead of publishing diagrams that could not be rendered as code (default false). */
+  strictDiagrams?: boolean;
+
+  /** Optional: explicit project root directory; defaults to process.cwd(). */
+  rootDir?: string;
+}
+
+export interface CachePruneOptions {
+  /** Absolute or relative path to topics dir (resolved against rootDir if relative) */
+  md: string;
+  /** Absolute or relative path to images dir (resolved against rootDir if relative) */
+  images: string;
+
+  /** Optional: list what would be removed without deleting anything. */
+  dryRun?: boolean;
+
+  /** Optional: only this instance's %variables% (default: keep what any instance references). */
+  instance?: string;
+
   /** Optional: explicit project root directory; defaults to process.cwd(). */
   rootDir?: string;
 }
 
 interface AttachmentVersion { number: number; }
 interface ValidationError {
-    type: 'LINK' | 'IMAGE' | 'ANCHOR';
+    type: 'LINK' | 'IMAGE' | 'ANCHOR' | 'VARIABLE' | 'INCLUDE' | 'CATEGORY';
     target: string;
     message: string;
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**********************************************************************
+ * utils/users.ts
+ * @mention → Confluence user mapping, from
+ *
+ * • users.json in the project root, and
+ * • a "users" section in authord.config.json (wins on conflicts)
+ *
+ *   { "Madushika Pramod": "mpramod", "@ops": { "userkey": "8a7f…" } }
+ *
+ * Keys are display names or handles (leading @ optional, matched
+ * case-insensitively); values are a username, or { username } /
+ * { userkey }. No mapping → mentions stay plain text.
+ *********************************************************************/
+
+import fs   from 'node:fs/promises';
+import fss  from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+import type { ConfluenceUser } from './types.ts';
+
+const USERS_FILE = 'users.json';
+
+export const UsersSchema = z.record(z.union([
+  z.string().min(1),
+  z.object({ username: z.string().min(1).optional(), userkey: z.string().min(1).optional() })
+    .refine(u => u.username || u.userkey, 'needs a username or userkey'),
+]));
+
+/** Map key for a mention name: no leading @, lower case. */
+const userKey = (name: string) => name.replace(/^@/, '').trim().toLowerCase();
+
+async function readUsers(file: string, pick: (json: Record<string, unknown>) => unknown) {
+  if (!fss.existsSync(file)) return {};
+  const json = JSON.parse(await fs.readFile(file, 'utf8'));
+  const parsed = UsersSchema.safeParse(pick(json) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid user mapping in ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+  return parsed.data;
+}
+
+export async function loadUsers(rootDir: string): Promise<Map<string, ConfluenceUser>> {
+  const entries = {
+    ...(await readUsers(path.join(rootDir, USERS_FILE), json => json)),
+    ...(await readUsers(path.join(rootDir, 'authord.config.json'), json => json.users)),
+  };
+  return new Map(Object.entries(entries).map(([name, v]) => [userKey(name), typeof v === 'string' ? { username: v } : v]));
+}
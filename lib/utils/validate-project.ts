@@ -50,7 +50,7 @@ export async function validateAuthordProject(root: string = process.cwd()): Prom
 
   const mdErrors: ValidationResult[] = [];
   for (const file of mdFiles) {
-    const res = await validateMarkdown(file, imagesAbs);      // ← passes shared images dir
+    const res = await validateMarkdown(file, imagesAbs, { topicsDir: topicsAbs }); // ← shared images dir
     if (res.errors.length) mdErrors.push(res);
   }
 
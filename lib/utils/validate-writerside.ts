@@ -2,6 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { XMLParser } from 'fast-xml-parser';
 import { validateMarkdown } from './markdown-validator.ts';
+import { loadCategories, loadVariableNames } from './writerside-project.ts';
 import { ValidationResult } from './types.ts';
 import process from "node:process";
 
@@ -45,8 +46,9 @@ export async function validateWritersideProject(
     else validateTree(abs, topicsAbs, errs);
   });
 
-  /* 5️⃣  markdown-lint every topic file (uses shared images dir) */
-  await lintAllTopics(topicsAbs, imagesAbs, errs);
+  /* 5️⃣  markdown-lint every topic file (uses shared images dir + v.list/buildprofiles variables + c.list) */
+  const categories = new Set((await loadCategories(root)).keys());
+  await lintAllTopics(topicsAbs, imagesAbs, await loadVariableNames(root), categories, errs);
 
   finish(errs);
 
@@ -111,6 +113,8 @@ function validateTree(treePath: string, topicsAbs: string, errs: Err[]) {
 async function lintAllTopics(
   topicsAbs: string,
   imagesAbs: string | undefined,
+  variables: Set<string>,
+  categories: Set<string>,
   _errs: Err[]
 ): Promise<void> {
   if (!topicsAbs || !fs.existsSync(topicsAbs)) return;
@@ -127,7 +131,7 @@ async function lintAllTopics(
 
   const lintErrs: ValidationResult[] = [];
   for (const file of mdFiles) {
-    const res = await validateMarkdown(file, imagesAbs);
+    const res = await validateMarkdown(file, imagesAbs, { variables, topicsDir: topicsAbs, categories });
     if (res.errors.length) lintErrs.push(res);
   }
   if (!lintErrs.length) return;
@@ -0,0 +1,106 @@
+/**********************************************************************
+ * utils/writerside-project.ts
+ * Writerside project files besides writerside.cfg / *.tree:
+ *
+ * • v.list                 <var name value [instance]/>
+ * • cfg/buildprofiles.xml  <variables> (global) and
+ *                          <build-profile instance><variables> (per instance)
+ * • c.list                 <category id name order/> (<seealso> groups)
+ *
+ * Precedence (last wins): v.list → v.list [instance] → buildprofiles
+ * global → buildprofiles for the instance.
+ *********************************************************************/
+
+import fs            from 'node:fs/promises';
+import fss           from 'node:fs';
+import path          from 'node:path';
+import { XMLParser } from 'fast-xml-parser';
+
+import { readWritersideInstances } from './topic-order.ts';
+
+const V_LIST         = 'v.list';
+const BUILD_PROFILES = path.join('cfg', 'buildprofiles.xml');
+const C_LIST         = 'c.list';
+
+const normalize = <T>(x: T | T[] | undefined | null): T[] =>
+  !x ? [] : Array.isArray(x) ? x : [x];
+
+const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_', parseTagValue: false });
+
+type VarXml      = { '@_name'?: string; '@_value'?: string; '@_instance'?: string };
+type CategoryXml = { '@_id'?: string; '@_name'?: string; '@_order'?: string };
+type VariablesXml = Record<string, unknown>;
+
+async function readXml(p: string) {
+  if (!fss.existsSync(p)) return null;
+  return parser.parse(await fs.readFile(p, 'utf8'));
+}
+
+/** <variables><name>value</name>…</variables> → [name, value][] */
+function profileVariables(vars: VariablesXml | string | undefined): [string, string][] {
+  if (!vars || typeof vars !== 'object') return [];
+  return Object.entries(vars)
+    .filter(([k]) => !k.startsWith('@_') && k !== '#text')
+    .map(([k, v]) => {
+      const first = normalize(v)[0];
+      const text  = first && typeof first === 'object' ? (first as Record<string, unknown>)['#text'] : first;
+      return [k, String(text ?? '')];
+    });
+}
+
+/**
+ * Variables for one instance (the first declared instance when `instance` is
+ * unset). Projects without v.list / buildprofiles.xml yield an empty map.
+ */
+export async function loadVariables(rootDir: string, instance?: string): Promise<Map<string, string>> {
+  const inst = instance ?? (await readWritersideInstances(rootDir))?.[0]?.id;
+  const out  = new Map<string, string>();
+
+  const vList = normalize<VarXml>((await readXml(path.join(rootDir, V_LIST)))?.vars?.var);
+  for (const v of vList) {
+    if (v['@_name'] && !v['@_instance']) out.set(v['@_name'], v['@_value'] ?? '');
+  }
+  for (const v of vList) {
+    if (v['@_name'] && inst && v['@_instance']?.split(/[,\s]+/).includes(inst)) out.set(v['@_name'], v['@_value'] ?? '');
+  }
+
+  const bp = (await readXml(path.join(rootDir, BUILD_PROFILES)))?.buildprofiles;
+  for (const [k, v] of profileVariables(bp?.variables)) out.set(k, v);
+  for (const profile of normalize(bp?.['build-profile'])) {
+    if (inst && profile?.['@_instance'] === inst) {
+      for (const [k, v] of profileVariables(profile.variables)) out.set(k, v);
+    }
+  }
+  return out;
+}
+
+/** Every variable name defined for any instance (what validation accepts). */
+export async function loadVariableNames(rootDir: string): Promise<Set<string>> {
+  const ids   = (await readWritersideInstances(rootDir))?.map(i => i.id) ?? [];
+  const names = new Set<string>();
+  for (const id of ids.length ? ids : [undefined]) {
+    for (const name of (await loadVariables(rootDir, id)).keys()) names.add(name);
+  }
+  return names;
+}
+
+/**
+ * c.list categories, id → display name, in `order` (declaration order for
+ * ties / no order). Projects without c.list yield an empty map.
+ */
+export async function loadCategories(rootDir: string): Promise<Map<string, string>> {
+  const cats = normalize<CategoryXml>((await readXml(path.join(rootDir, C_LIST)))?.categories?.category)
+    .filter(c => c['@_id'])
+    .map((c, i) => ({ id: c['@_id']!, name: c['@_name'] || c['@_id']!, order: Number(c['@_order'] ?? NaN), i }));
+  cats.sort((a, b) => (Number.isFinite(a.order) ? a.order : Infinity) - (Number.isFinite(b.order) ? b.order : Infinity) || a.i - b.i);
+  return new Map(cats.map(c => [c.id, c.name]));
+}
+
+/** `%name%` references (name: letters, digits, `_`, `-`, `.`). */
+export const VARIABLE_RE = /%([A-Za-z_][\w.-]*)%/g;
+
+/** Replace known `%name%` references; unknown ones are left as written. */
+export function substituteVariables(s: string, vars: Map<string, string>): string {
+  if (!vars.size || !s.includes('%')) return s;
+  return s.replace(VARIABLE_RE, (full, name) => vars.get(name) ?? full);
+}
@@ -1,10 +1,22 @@
 /**********************************************************************
  * transformers/writerside-markdown-transformer.ts
- * md → remarkConfluenceMedia → remarkRehype(+raw) →
+ * md → remarkWritersideAttributes → remarkWritersideVariables →
+ * remarkWritersideTabs → remarkConfluenceMedia → remarkRehype(+raw) →
  * rehypeConfluenceStorage → XHTML string
+ *
+ * <include> elements are expanded and <tabs> rewritten to directives in
+ * the source first (utils/includes.ts, utils/tabs.ts); @mentions are
+ * resolved on the parsed tree (remark-confluence-mentions). Diagrams
+ * that fail to render become warnings with their file and line, or one
+ * error with `strictDiagrams`.
+ * toStorageTopics(): parse each topic on its own, resolve links
+ * between them (remark-topic-links), mark headings with the topic's
+ * TOC depth, then run the merged tree.
  *********************************************************************/
 
+import type { Code, Heading, Root as MdRoot } from 'mdast';
 import { unified } from 'unified';
+import { visit } from 'unist-util-visit';
 import remarkParse from 'remark-parse';
 import remarkDirective from 'remark-directive';
 import remarkGfm from 'remark-gfm';
@@ -13,17 +25,52 @@ import rehypeRaw from 'rehype-raw';
 import rehypeStringify from 'rehype-stringify';
 
 import { remarkConfluenceMedia } from './plugins/remark-confluence-media.ts';
-import { rehypeConfluenceStorage } from './plugins/rehype-confluence-storage.ts';
+import { resolveMentions } from './plugins/remark-confluence-mentions.ts';
+import { rehypeConfluenceStorage, type RehypeConfluenceStorageOptions } from './plugins/rehype-confluence-storage.ts';
+import { resolveTopicLinks } from './plugins/remark-topic-links.ts';
+import { remarkWritersideAttributes } from './plugins/remark-writerside-attributes.ts';
+import { remarkWritersideTabs } from './plugins/remark-writerside-tabs.ts';
+import { remarkWritersideVariables } from './plugins/remark-writerside-variables.ts';
+import { expandIncludes } from './utils/includes.ts';
+import { type SourceLine, sourceLines } from './utils/md-source.ts';
+import { tabsToDirectivesWithLines } from './utils/tabs.ts';
+import type { ConfluenceUser, DiagramFormat, TopicSource, TransformWarning } from './utils/types.ts';
 
-function buildStorageProcessor() {
+export interface StorageTransformOptions extends RehypeConfluenceStorageOptions {
+  /** Writerside `%name%` values, substituted before conversion (utils/writerside-project.ts) */
+  variables?: Map<string, string>;
+  /** Topics root for resolving <include from> (utils/includes.ts) */
+  topicsDir?: string;
+  /** @mention name → Confluence user (utils/users.ts); mentions stay text when unset */
+  users?: Map<string, ConfluenceUser>;
+  /** Throw after the run if any diagram failed to render (default: publish it as code with a warning) */
+  strictDiagrams?: boolean;
+  /** Rendered diagram format (utils/diagrams.ts loadDiagramFormat); default 'png' */
+  diagramFormat?: DiagramFormat;
+}
+
+type DiagramFailure = { message: string; node: Code };
+
+/** Markdown stages up to (not including) diagram rendering. */
+function buildSourceProcessor(options: StorageTransformOptions = {}) {
   return unified()
     .use(remarkParse)
     .use(remarkGfm)
     .use(remarkDirective)
-    .use(remarkConfluenceMedia)                 // Mermaid + MD image sizing
+    .use(remarkWritersideAttributes)            // {title=… ignore-vars=…} after blocks
+    .use(remarkWritersideVariables, { variables: options.variables })
+    .use(remarkWritersideTabs);                 // <tabs> directives → marked divs
+}
+
+function buildStorageProcessor(options: StorageTransformOptions = {}, failures: DiagramFailure[] = []) {
+  return buildSourceProcessor(options)
+    .use(remarkConfluenceMedia, {               // diagrams + MD image sizing
+      format: options.diagramFormat,
+      onDiagramError: (message, node) => failures.push({ message, node }),
+    })
     .use(remarkRehype, { allowDangerousHtml: true })
     .use(rehypeRaw)                             // parse raw HTML into HAST
-    .use(rehypeConfluenceStorage)               // Convert img/input/etc.
+    .use(rehypeConfluenceStorage, options)      // Convert img/input/etc.
     .use(rehypeStringify, {
       allowDangerousHtml: true,
       closeSelfClosing: true,
@@ -34,8 +81,98 @@ function buildStorageProcessor() {
 }
 
 export class WritersideMarkdownTransformerDC {
-  async toStorage(md: string) {
-    const vfile = await buildStorageProcessor().process(md);
-    return { value: String(vfile), representation: 'storage' as const };
+  constructor(private readonly options: StorageTransformOptions = {}) {}
+
+  private get users() {
+    return this.options.users ?? new Map<string, ConfluenceUser>();
+  }
+
+  /** One topic → page body. With `file`, <include> elements are resolved relative to it. */
+  async toStorage(md: string, file?: string) {
+    const { markdown, warnings, lines } = this.inline(md, file);
+    const failures: DiagramFailure[] = [];
+    const processor = buildStorageProcessor(this.options, failures);
+    const tree = processor.parse(markdown);
+    warnings.push(...resolveMentions(tree, file ?? '', this.users));
+    const hast = await processor.run(tree);
+    warnings.push(...this.diagramWarnings(failures, () => lines));
+    return { value: String(processor.stringify(hast)), representation: 'storage' as const, warnings };
+  }
+
+  /** Several topics → one page body; links between them become in-page anchor links. */
+  async toStorageTopics(topics: TopicSource[]) {
+    const failures: DiagramFailure[] = [];
+    const processor = buildStorageProcessor(this.options, failures);
+    const warnings: TransformWarning[] = [];
+    const parsed = topics.map(t => {
+      const inlined = this.inline(t.markdown, t.file);
+      const tree = processor.parse(inlined.markdown);
+      warnings.push(...inlined.warnings, ...resolveMentions(tree, t.file, this.users));
+      return { file: t.file, tree, lines: inlined.lines };
+    });
+
+    // Mark each topic's headings with its TOC depth (applied by rehypeConfluenceStorage)
+    topics.forEach((t, i) => {
+      if (!t.depth) return;
+      visit(parsed[i].tree, 'heading', (h: Heading) => {
+        ((h.data ??= {}).hProperties ??= {}).dataAuthordShift = t.depth;
+      });
+    });
+    warnings.push(...resolveTopicLinks(parsed));
+
+    // Remember each code block's topic lines; diagram failures are reported against them after the merged run
+    const linesOf = new Map<Code, SourceLine[]>();
+    for (const p of parsed) visit(p.tree, 'code', (c: Code) => { linesOf.set(c, p.lines); });
+
+    const merged: MdRoot = { type: 'root', children: parsed.flatMap(p => p.tree.children) };
+    const hast = await processor.run(merged);
+    warnings.push(...this.diagramWarnings(failures, node => linesOf.get(node) ?? []));
+    const value = processor.stringify(hast);
+    return { value: String(value), representation: 'storage' as const, warnings };
+  }
+
+  /**
+   * Code blocks of one topic as the diagram renderer gets them (includes, tabs and
+   * variables applied); nothing is rendered. Used by `cache prune`.
+   */
+  async codeBlocks(md: string, file?: string): Promise<Code[]> {
+    const processor = buildSourceProcessor(this.options);
+    const tree = await processor.run(processor.parse(this.inline(md, file).markdown));
+    const blocks: Code[] = [];
+    visit(tree, 'code', (c: Code) => { blocks.push(c); });
+    return blocks;
+  }
+
+  /**
+   * Diagram render failures → warnings at their source file:line (through `linesOf`, the
+   * line map of the inlined topic); with strictDiagrams, one error listing them all.
+   */
+  private diagramWarnings(failures: DiagramFailure[], linesOf: (node: Code) => SourceLine[]): TransformWarning[] {
+    const list = failures
+      .map(({ message, node }) => {
+        const lines = linesOf(node);
+        const at = lines[(node.position?.start.line ?? 0) - 1];
+        return { file: at?.file ?? lines[0]?.file ?? '', line: at?.line, message };
+      })
+      .sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+    if (this.options.strictDiagrams && list.length) {
+      throw new Error(`${list.length} diagram(s) failed to render:\n` +
+        list.map(w => `  ${w.file}${w.line ? `:${w.line}` : ''}: ${w.message}`).join('\n'));
+    }
+    return list;
+  }
+
+  /**
+   * Source-level expansion of <include> elements (needs `file`) and <tabs>; problems become
+   * warnings. `lines` maps each line of the result back to its line in the topic.
+   */
+  private inline(md: string, file?: string): { markdown: string; warnings: TransformWarning[]; lines: SourceLine[] } {
+    const { markdown, problems, lines } = file
+      ? expandIncludes(md, file, { topicsDir: this.options.topicsDir })
+      : { markdown: md, problems: [], lines: sourceLines(md, '') };
+    return {
+      ...tabsToDirectivesWithLines(markdown, lines),
+      warnings: problems.map(({ file, line, message }) => ({ file, line, message })),
+    };
   }
 }
@@ -0,0 +1,312 @@
+// diagrams.test.ts
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { WritersideMarkdownTransformerDC } from "../lib/writerside-markdown-transformer.ts";
+import { pruneCache } from "../lib/cache-prune.ts";
+import { loadVariables } from "../lib/utils/writerside-project.ts";
+import { readDiagramManifest } from "../lib/utils/diagram-cache.ts";
+import {
+  diagramFileName,
+  diagramRenderer,
+  loadDiagramFormat,
+  registerDiagramRenderer,
+  runTool,
+} from "../lib/utils/diagrams.ts";
+import { IMAGE_DIR, imageContentType, PNG_MAGIC, setImageDir } from "../lib/utils/images.ts";
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+// 1) Built-ins are keyed by fence language (case-insensitive)
+Deno.test("diagrams: built-in renderers by fence language", () => {
+  const got = ["mermaid", "PlantUML", "puml", "dot", "graphviz", "d2", "js"]
+    .map((lang) => diagramRenderer(lang)?.name ?? "-").join();
+  if (got !== "mermaid,plantuml,plantuml,dot,dot,d2,-") throw new Error(`Unexpected renderers: ${got}`);
+});
+
+// 2) A registered renderer draws its fences once (cached); failures keep the code in a warning panel
+Deno.test("diagrams: registered renderer, cache and failure", async () => {
+  const prev = IMAGE_DIR;
+  const dir = await Deno.makeTempDir();
+  setImageDir(dir);
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(dir, "work"));
+  try {
+    let calls = 0;
+    registerDiagramRenderer({
+      name: "test-box",
+      languages: ["box"],
+      render: async (_def, outFile) => { calls++; await Deno.writeFile(outFile, PNG_MAGIC); },
+    });
+    registerDiagramRenderer({
+      name: "test-broken",
+      languages: ["broken"],
+      render: async () => { await runTool("authord-no-such-tool", []); },
+    });
+
+    const md = "```box\na -> b\n```\n\n```box\na -> b\n```\n\n```broken\nx\n```\n";
+    const { value: s, warnings } = await new WritersideMarkdownTransformerDC().toStorage(md, "/docs/topic.md");
+    if (calls !== 1) throw new Error(`Expected one render, got ${calls}`);
+    const png = fs.readdirSync(dir).filter((f) => f.endsWith(".png")).join();
+    if (!/^[0-9a-f]+\.png$/.test(png)) throw new Error(`Unexpected cache contents: ${png}`);
+    const error = "test-broken diagram not rendered: authord-no-such-tool not found (is it installed and on PATH?)";
+    expectIncludes(s, [
+      `<ri:attachment ri:filename="${png}"`,
+      '<ac:structured-macro ac:name="warning" ac:schema-version="1">' +
+        '<ac:parameter ac:name="title">Diagram not rendered</ac:parameter>' +
+        `<ac:rich-text-body><p>${error}</p>` +
+        '<ac:structured-macro ac:name="code" ac:schema-version="1"><ac:parameter ac:name="language">text</ac:parameter><ac:plain-text-body><![CDATA[x]]>',
+    ]);
+    const got = warnings.map((w) => `${w.file}:${w.line}: ${w.message}`).join("\n");
+    if (got !== `/docs/topic.md:9: ${error}`) throw new Error(`Unexpected warnings:\n${got}`);
+
+    // --strict-diagrams: one error naming every failed diagram
+    const strict = new WritersideMarkdownTransformerDC({ strictDiagrams: true });
+    let message = "";
+    try {
+      await strict.toStorageTopics([
+        { file: "/docs/a.md", markdown: "# A\n\n```broken\none\n```\n" },
+        { file: "/docs/b.md", markdown: "```broken\ntwo\n```\n" },
+      ]);
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expectIncludes(message, [
+      "2 diagram(s) failed to render:",
+      `  /docs/a.md:3: ${error}`,
+      `  /docs/b.md:1: ${error}`,
+    ], "error");
+  } finally {
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 3) Cache names follow version + options; prune drops unreferenced manifest entries only
+Deno.test("diagrams: cache key, manifest and prune", async () => {
+  const prev = IMAGE_DIR;
+  const root = await Deno.makeTempDir();
+  const images = path.join(root, "images");
+  await Deno.mkdir(path.join(root, "topics"));
+  await Deno.mkdir(images);
+  setImageDir(images);
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(root, "work"));
+  try {
+    let theme = "light";
+    const renderer = {
+      name: "test-themed",
+      languages: ["themed"],
+      version: () => "1.0",
+      options: () => ({ theme }),
+      render: async (_def: string, outFile: string) => { await Deno.writeFile(outFile, PNG_MAGIC); },
+    };
+    registerDiagramRenderer(renderer);
+
+    const light = await diagramFileName(renderer, "keep\n");
+    if (!/^[0-9a-f]{64}\.png$/.test(light)) throw new Error(`Unexpected cache name: ${light}`);
+    theme = "dark";
+    if (await diagramFileName(renderer, "keep") === light) throw new Error("Options must change the cache name");
+    theme = "light";
+
+    await new WritersideMarkdownTransformerDC().toStorage("```themed\nkeep\n```\n\n```themed\ngone\n```\n");
+    const rendered = Object.keys((await readDiagramManifest()).diagrams).map((f) => path.basename(f)).sort();
+    if (rendered.length !== 2 || !rendered.includes(light)) throw new Error(`Unexpected manifest: ${rendered}`);
+
+    await Deno.writeTextFile(path.join(root, "topics", "a.md"), "# A\n\n```themed\nkeep\n```\n");
+    await Deno.writeFile(path.join(images, "logo.png"), PNG_MAGIC);
+    const dry = await pruneCache({ rootDir: root, md: "topics", images: "images", dryRun: true });
+    if (dry.removed.length !== 1 || fs.readdirSync(images).length !== 3) throw new Error("Dry run must not delete");
+
+    const { removed, kept } = await pruneCache({ rootDir: root, md: "topics", images: "images" });
+    const gone = rendered.find((f) => f !== light)!;
+    if (removed.join() !== path.join(images, gone) || kept !== 1) throw new Error(`Unexpected prune: ${removed} / ${kept}`);
+    const left = fs.readdirSync(images).sort().join();
+    if (left !== [light, "logo.png"].sort().join()) throw new Error(`Unexpected images left: ${left}`);
+    const manifest = Object.keys((await readDiagramManifest()).diagrams).map((f) => path.basename(f));
+    if (manifest.join() !== light) throw new Error(`Unexpected manifest after prune: ${manifest}`);
+  } finally {
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+// 4) SVG output (project option) with ac:original-* from the SVG; failed SVGs fall back to PNG
+Deno.test("diagrams: svg format with png fallback", async () => {
+  const prev = IMAGE_DIR;
+  const dir = await Deno.makeTempDir();
+  setImageDir(dir);
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(dir, "work"));
+  try {
+    await Deno.writeTextFile(path.join(dir, "authord.config.json"), JSON.stringify({ diagrams: { format: "svg" } }));
+    if (await loadDiagramFormat(dir) !== "svg") throw new Error("Expected svg from authord.config.json");
+    await Deno.writeTextFile(path.join(dir, "authord.config.json"), JSON.stringify({ diagrams: { format: "gif" } }));
+    let message = "";
+    try { await loadDiagramFormat(dir); } catch (err) { message = (err as Error).message; }
+    if (!message.includes('Invalid "diagrams" section')) throw new Error(`Expected invalid format error, got "${message}"`);
+
+    registerDiagramRenderer({
+      name: "test-svg",
+      languages: ["vector"],
+      formats: ["svg", "png"],
+      async render(def, outFile, format) {
+        if (format === "png") return await Deno.writeFile(outFile, PNG_MAGIC);
+        if (def === "raster only") throw new Error("no svg");
+        await Deno.writeTextFile(outFile,
+          '<svg xmlns="http://www.w3.org/2000/svg" width="100%" style="max-width: 200px;" viewBox="0 0 400 100"></svg>');
+      },
+    });
+    const md = "```vector\nsharp\n```\n\n```vector\nraster only\n```\n";
+    const { value: s, warnings } = await new WritersideMarkdownTransformerDC({ diagramFormat: "svg" }).toStorage(md);
+    if (warnings.length) throw new Error(`Unexpected warnings: ${warnings.map((w) => w.message)}`);
+    const renderer = diagramRenderer("vector")!;
+    expectIncludes(s, [
+      `<ac:image ac:original-width="200" ac:original-height="50"><ri:attachment ri:filename="${await diagramFileName(renderer, "sharp", "svg")}"`,
+      `<ri:attachment ri:filename="${await diagramFileName(renderer, "raster only", "png")}"`,
+    ]);
+    if (imageContentType("a.svg") !== "image/svg+xml" || imageContentType("b.PNG") !== "image/png") {
+      throw new Error("Unexpected content types");
+    }
+  } finally {
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 5) A hanging tool is killed after AUTHORD_DIAGRAM_TIMEOUT and reported like any other failure
+Deno.test("diagrams: tool timeout", async () => {
+  const prev = IMAGE_DIR;
+  const dir = await Deno.makeTempDir();
+  setImageDir(dir);
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(dir, "work"));
+  Deno.env.set("AUTHORD_DIAGRAM_TIMEOUT", "0.2");
+  try {
+    registerDiagramRenderer({
+      name: "test-slow",
+      languages: ["slow"],
+      render: async () => { await runTool("sleep", ["30"]); },
+    });
+    const started = Date.now();
+    const { warnings } = await new WritersideMarkdownTransformerDC().toStorage("```slow\nx\n```\n", "/docs/topic.md");
+    if (Date.now() - started > 10_000) throw new Error("The tool was not killed");
+    const got = warnings.map((w) => `${w.file}:${w.line}: ${w.message}`).join("\n");
+    if (got !== "/docs/topic.md:1: test-slow diagram not rendered: sleep timed out after 0.2s (AUTHORD_DIAGRAM_TIMEOUT)") {
+      throw new Error(`Unexpected warnings:\n${got}`);
+    }
+  } finally {
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    Deno.env.delete("AUTHORD_DIAGRAM_TIMEOUT");
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 6) Failures are reported at their line in the topic file, through <include> (the include's line) and <tabs>
+Deno.test("diagrams: failure lines through includes and tabs", async () => {
+  const prev = IMAGE_DIR;
+  const dir = await Deno.makeTempDir();
+  setImageDir(dir);
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(dir, "work"));
+  try {
+    registerDiagramRenderer({
+      name: "test-broken",
+      languages: ["broken"],
+      render: async () => { await runTool("authord-no-such-tool", []); },
+    });
+    const file = path.join(dir, "topic.md");
+    await Deno.writeTextFile(path.join(dir, "shared.md"), "Shared\n\ntext\n\n```broken\nshared\n```\n\nend\n");
+    await Deno.writeTextFile(file, [
+      "# Topic",
+      "",
+      '<include from="shared.md"/>',
+      "",
+      "```broken",
+      "one",
+      "```",
+      "",
+      "<tabs>",
+      '    <tab title="A">',
+      "",
+      "        ```broken",
+      "        two",
+      "        ```",
+      "    </tab>",
+      '    <tab title="B">',
+      '        <code-block lang="broken">',
+      "        three",
+      "        </code-block>",
+      "    </tab>",
+      "</tabs>",
+      "",
+      "```broken",
+      "four",
+      "```",
+      "",
+    ].join("\n"));
+    const md = await Deno.readTextFile(file);
+
+    const transformer = new WritersideMarkdownTransformerDC();
+    const single = await transformer.toStorage(md, file);
+    const merged = await transformer.toStorageTopics([{ file, markdown: md }]);
+    for (const { warnings } of [single, merged]) {
+      const got = warnings.map((w) => `${path.basename(w.file)}:${w.line}`).join();
+      if (got !== "topic.md:3,topic.md:5,topic.md:12,topic.md:17,topic.md:23") throw new Error(`Unexpected warnings: ${got}`);
+    }
+  } finally {
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 7) Prune hashes fences after %variable% substitution (ignore-vars respected): per --instance, else for every instance
+Deno.test("diagrams: prune with variables and instances", async () => {
+  const prev = IMAGE_DIR;
+  const root = await Deno.makeTempDir();
+  const images = path.join(root, "images");
+  await Deno.mkdir(path.join(root, "topics"));
+  await Deno.mkdir(images);
+  setImageDir(images);
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(root, "work"));
+  try {
+    registerDiagramRenderer({
+      name: "test-plain",
+      languages: ["plain"],
+      render: async (_def, outFile) => { await Deno.writeFile(outFile, PNG_MAGIC); },
+    });
+    await Deno.writeTextFile(path.join(root, "writerside.cfg"), '<ihp version="2.0"><instance src="a.tree"/><instance src="b.tree"/></ihp>');
+    for (const id of ["a", "b"]) {
+      await Deno.writeTextFile(path.join(root, `${id}.tree`), `<instance-profile id="${id}" name="${id}"/>`);
+    }
+    await Deno.writeTextFile(path.join(root, "v.list"),
+      '<vars><var name="product" value="Alpha" instance="a"/><var name="product" value="Beta" instance="b"/></vars>');
+    const topic = path.join(root, "topics", "a.md");
+    await Deno.writeTextFile(topic, '```plain\n%product% -> db\n```\n\n```plain\nraw %product%\n```\n{ignore-vars="true"}\n');
+
+    const md = await Deno.readTextFile(topic);
+    for (const id of ["a", "b"]) {
+      await new WritersideMarkdownTransformerDC({ variables: await loadVariables(root, id) }).toStorage(md, topic);
+    }
+    await new WritersideMarkdownTransformerDC().toStorage("```plain\nstale\n```\n");
+    const name = async (def: string) => path.join(images, await diagramFileName(diagramRenderer("plain")!, def));
+    const [alpha, beta, raw, stale] = await Promise.all(["Alpha -> db", "Beta -> db", "raw %product%", "stale"].map(name));
+    if (![alpha, beta, raw, stale].every((f) => fs.existsSync(f))) throw new Error(`Unexpected images: ${fs.readdirSync(images)}`);
+
+    const one = await pruneCache({ rootDir: root, md: "topics", images: "images", instance: "a", dryRun: true });
+    if (one.removed.join() !== [beta, stale].sort().join() || one.kept !== 2) {
+      throw new Error(`Unexpected --instance a prune: ${one.removed} / ${one.kept}`);
+    }
+    const all = await pruneCache({ rootDir: root, md: "topics", images: "images" });
+    if (all.removed.join() !== stale || all.kept !== 3) throw new Error(`Unexpected prune: ${all.removed} / ${all.kept}`);
+  } finally {
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -0,0 +1,68 @@
+// export-single.test.ts
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+import { exportSingle } from "../lib/export-single.ts";
+import { IMAGE_DIR, setImageDir } from "../lib/utils/images.ts";
+import { closeMermaidRenderer } from "../lib/utils/mermaid.ts";
+
+const SAMPLE = path.resolve(import.meta.dirname!, "../sample/writerside");
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+// 1) Sample project → page.xhtml, manifest.json and the referenced attachments
+Deno.test("export: sample project writes page, manifest and attachments", async () => {
+  const prev = IMAGE_DIR;
+  const dir = await Deno.makeTempDir();
+  const root = path.join(dir, "project");
+  fs.cpSync(SAMPLE, root, { recursive: true });  // diagrams rendered here must not land in the repo
+  try {
+    const manifest = await exportSingle({ rootDir: root, md: "topics", images: "images", out: "out" });
+    const out = path.join(root, "out");
+
+    const page = await Deno.readTextFile(path.join(out, "page.xhtml"));
+    expectIncludes(page, [
+      '<ri:attachment ri:filename="new_topic_options.png"',
+      '<ri:attachment ri:filename="convert_table_to_xml.png"',
+    ], "page.xhtml");
+    if (manifest.hash !== createHash("sha256").update(page).digest("hex")) throw new Error("hash must be sha256 of page.xhtml");
+
+    const written = JSON.parse(await Deno.readTextFile(path.join(out, "manifest.json")));
+    if (JSON.stringify(written) !== JSON.stringify(manifest)) throw new Error("manifest.json differs from the result");
+    const topics = manifest.topics.join();
+    if (topics !== "topics/home.md,topics/0-home-child.md,topics/Sibling.md") throw new Error(`Unexpected topics: ${topics}`);
+
+    const files = manifest.attachments.map((a) => a.file);
+    for (const f of ["completion_procedure.png", "convert_table_to_xml.png", "new_topic_options.png"]) {
+      if (!files.includes(f)) throw new Error(`Missing attachment ${f} in ${files}`);
+    }
+    for (const a of manifest.attachments) {
+      const buf = await Deno.readFile(path.join(out, "attachments", a.file));
+      if (buf.length !== a.bytes || createHash("sha256").update(buf).digest("hex") !== a.sha256) {
+        throw new Error(`Attachment ${a.file} does not match its manifest entry`);
+      }
+    }
+    if (manifest.missing.length) throw new Error(`Unexpected missing attachments: ${manifest.missing}`);
+  } finally {
+    setImageDir(prev);
+    await closeMermaidRenderer();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 2) Missing --out is reported before any path is resolved
+Deno.test("export: missing out is a clear error", async () => {
+  let message = "";
+  try {
+    await exportSingle({ rootDir: SAMPLE, md: "topics", images: "images" } as unknown as Parameters<typeof exportSingle>[0]);
+  } catch (err) {
+    message = (err as Error).message;
+  }
+  if (message !== "Missing required option: out") throw new Error(`Unexpected error: "${message}"`);
+});
@@ -0,0 +1,149 @@
+// fake-confluence.ts — in-memory Confluence REST API for the publisher tests.
+// install() routes axios through its fetch adapter and stubs fetch, so the
+// helpers in lib/utils/confluence-utils.ts talk to this fake instead of a server.
+import axios from "axios";
+
+export interface FakePage {
+  id: string;
+  title: string;
+  spaceKey: string;
+  parentId?: string;
+  version: number;
+  by: string;
+  body: string;
+  /** Content properties (exportHash, exportVersion, …) */
+  props: Record<string, { value: string; version: number }>;
+  attachments: string[];
+}
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify(data), { status, headers: { "content-type": "application/json" } });
+
+export class FakeConfluence {
+  readonly baseUrl = "https://confluence.test";
+  /** Pages in sibling order (creation order, changed by moves) */
+  pages: FakePage[] = [];
+  /** "METHOD /path" of every request */
+  requests: string[] = [];
+  private nextId = 100;
+
+  addPage(page: Partial<FakePage> & { title: string }): FakePage {
+    const p: FakePage = {
+      id: String(this.nextId++), spaceKey: "DOC", version: 1, by: "authord", body: "", props: {}, attachments: [],
+      ...page,
+    };
+    this.pages.push(p);
+    return p;
+  }
+
+  page(id: string): FakePage {
+    const p = this.pages.find((x) => x.id === id);
+    if (!p) throw new Error(`No fake page ${id}`);
+    return p;
+  }
+
+  byTitle(title: string): FakePage {
+    const p = this.pages.find((x) => x.title === title);
+    if (!p) throw new Error(`No fake page titled ${title}`);
+    return p;
+  }
+
+  children(parentId: string): FakePage[] {
+    return this.pages.filter((p) => p.parentId === parentId);
+  }
+
+  /** Someone changes the page in the Confluence editor. */
+  editInConfluence(id: string, by: string, body = "<p>edited</p>") {
+    const p = this.page(id);
+    p.version++;
+    p.by = by;
+    p.body = body;
+  }
+
+  /** Requests other than reads. */
+  writes(): string[] {
+    return this.requests.filter((r) => !r.startsWith("GET "));
+  }
+
+  /** Stub fetch (and point axios at it); returns the restore function. */
+  install(): () => void {
+    const fetch = globalThis.fetch;
+    const adapter = axios.defaults.adapter;
+    axios.defaults.adapter = "fetch";
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const req = new Request(input, init);
+      const body = req.method === "GET" ? undefined : await req.text();
+      return this.handle(req.method, new URL(req.url), body ? JSON.parse(body) : undefined);
+    };
+    return () => {
+      globalThis.fetch = fetch;
+      axios.defaults.adapter = adapter;
+    };
+  }
+
+  private view(p: FakePage) {
+    return {
+      id: p.id,
+      title: p.title,
+      space: { key: p.spaceKey },
+      version: { number: p.version, by: { displayName: p.by }, when: `2026-10-0${p.version}T10:00:00Z` },
+      body: { storage: { value: p.body } },
+    };
+  }
+
+  // deno-lint-ignore no-explicit-any
+  private handle(method: string, url: URL, body: any): Response {
+    const route = url.pathname.replace(/^\/rest\/api\/content/, "");
+    this.requests.push(`${method} ${url.pathname}`);
+    const find = (id: string) => this.pages.find((p) => p.id === id);
+    let m: RegExpExecArray | null;
+
+    if (method === "GET" && route === "") {
+      const q = url.searchParams;
+      const hits = this.pages.filter((p) => p.spaceKey === q.get("spaceKey") && p.title === q.get("title"));
+      return json({ results: hits.map((p) => this.view(p)) });
+    }
+    if (method === "POST" && route === "") {
+      const p = this.addPage({
+        title: body.title, spaceKey: body.space.key, parentId: body.ancestors?.[0]?.id, body: body.body.storage.value,
+      });
+      return json(this.view(p));
+    }
+    if ((m = /^\/(\d+)\/child\/page$/.exec(route))) {
+      return json({ results: this.children(m[1]).map((p) => this.view(p)), _links: {} });
+    }
+    if ((m = /^\/(\d+)\/child\/attachment$/.exec(route))) {
+      const p = find(m[1]);
+      return json({ results: (p?.attachments ?? []).map((title) => ({ title })), size: 0, _links: {} });
+    }
+    if (method === "PUT" && (m = /^\/(\d+)\/move\/(before|after)\/(\d+)$/.exec(route))) {
+      const p = find(m[1]), target = find(m[3]);
+      if (!p || !target) return json({ message: "not found" }, 404);
+      this.pages.splice(this.pages.indexOf(p), 1);
+      this.pages.splice(this.pages.indexOf(target) + (m[2] === "after" ? 1 : 0), 0, p);
+      return json({});
+    }
+    if ((m = /^\/(\d+)\/property(?:\/([\w-]+))?$/.exec(route))) {
+      const p = find(m[1]);
+      if (!p) return json({ message: "not found" }, 404);
+      const key = m[2] ?? body?.key;
+      if (method === "GET") {
+        const prop = p.props[key];
+        return prop ? json({ key, value: prop.value, version: { number: prop.version } }) : json({ message: "no property" }, 404);
+      }
+      p.props[key] = { value: body.value, version: (p.props[key]?.version ?? 0) + 1 };
+      return json({});
+    }
+    if ((m = /^\/(\d+)$/.exec(route))) {
+      const p = find(m[1]);
+      if (!p) return json({ message: "page not found" }, 404);
+      if (method === "GET") return json(this.view(p));
+      if (method === "PUT") {
+        if (body.version.number !== p.version + 1) return json({ message: "version conflict" }, 409);
+        Object.assign(p, { title: body.title, version: body.version.number, by: "authord", body: body.body.storage.value });
+        return json(this.view(p));
+      }
+    }
+    return json({ message: `unexpected ${method} ${url.pathname}` }, 501);
+  }
+}
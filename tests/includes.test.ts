@@ -0,0 +1,93 @@
+// includes.test.ts
+import * as path from "node:path";
+import { WritersideMarkdownTransformerDC } from "../lib/writerside-markdown-transformer.ts";
+import { expandIncludes } from "../lib/utils/includes.ts";
+import { validateMarkdown } from "../lib/utils/markdown-validator.ts";
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+async function withTopics(files: Record<string, string>, fn: (dir: string) => Promise<void>) {
+  const dir = await Deno.makeTempDir();
+  try {
+    for (const [name, body] of Object.entries(files)) await Deno.writeTextFile(path.join(dir, name), body);
+    await fn(dir);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+const SNIPPETS = `<snippet id="note">
+    Shared **note** text.
+</snippet>
+
+## Install {id="install"}
+
+Run the installer.
+
+## Next
+
+Not included.
+
+A reusable paragraph.
+{id="para"}
+`;
+
+// 1) Snippet, heading section, attributed block and whole file are inlined; fences untouched
+Deno.test("include: element-id fragments inlined", async () => {
+  await withTopics({ "lib.md": SNIPPETS, "whole.md": "Whole file." }, async (dir) => {
+    const md =
+`<include from="lib.md" element-id="note"/>
+
+<include from="lib.md" element-id="install"/>
+
+<include from="lib.md" element-id="para"/>
+
+<include from="whole.md"/>
+
+\`\`\`xml
+<include from="lib.md" element-id="note"/>
+\`\`\``;
+    const t = new WritersideMarkdownTransformerDC({ topicsDir: dir });
+    const { value: s, warnings } = await t.toStorage(md, path.join(dir, "topic.md"));
+    expectIncludes(s, [
+      "<p>Shared <strong>note</strong> text.</p>",
+      "<h2>Install</h2>",
+      "<p>Run the installer.</p>",
+      "<p>A reusable paragraph.</p>",
+      "<p>Whole file.</p>",
+      '<ac:plain-text-body><![CDATA[<include from="lib.md" element-id="note"/>]]></ac:plain-text-body>',
+    ]);
+    if (s.includes("Not included") || s.split("<include").length !== 2) throw new Error(`Unexpected content:\n${s}`);
+    if (warnings.length) throw new Error(`Unexpected warnings: ${JSON.stringify(warnings)}`);
+  });
+});
+
+// 2) Cycles and missing targets are reported, not expanded
+Deno.test("include: cycles and missing targets reported", async () => {
+  await withTopics({
+    "a.md": `A\n\n<include from="b.md"/>`,
+    "b.md": `B\n\n<include from="a.md"/>\n\n<include from="nope.md"/>\n\n<include from="a.md" element-id="x"/>`,
+  }, async (dir) => {
+    const a = path.join(dir, "a.md");
+    const { markdown, problems } = expandIncludes(await Deno.readTextFile(a), a);
+    expectIncludes(markdown, ["A", "B"]);
+    const got = problems.map((p) => `${path.basename(p.file)}:${p.line} ${p.message}`);
+    const want = [
+      "b.md:3 Include cycle: a.md → b.md → a.md",
+      "b.md:5 Included file not found: nope.md",
+      'b.md:7 No element with id "x" in a.md',
+    ];
+    if (got.join("\n") !== want.join("\n")) throw new Error(`Expected:\n${want.join("\n")}\nGot:\n${got.join("\n")}`);
+
+    const res = await validateMarkdown(a, undefined, { topicsDir: dir });
+    if (res.errors.length !== 3 || res.errors.some((e) => e.type !== "INCLUDE")) {
+      throw new Error(`Unexpected validation errors: ${JSON.stringify(res.errors)}`);
+    }
+  });
+});
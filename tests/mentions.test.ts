@@ -0,0 +1,60 @@
+// mentions.test.ts
+import * as path from "node:path";
+import { WritersideMarkdownTransformerDC } from "../lib/writerside-markdown-transformer.ts";
+import { loadUsers } from "../lib/utils/users.ts";
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+// 1) users.json + authord.config.json "users" (config wins); keys normalized
+Deno.test("mentions: users.json and config section are merged", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(path.join(dir, "users.json"),
+      JSON.stringify({ "Madushika Pramod": "mpramod", "@ops": { userkey: "8a7f0001" }, "Old": "old" }));
+    await Deno.writeTextFile(path.join(dir, "authord.config.json"), JSON.stringify({ users: { old: "new" } }));
+    const got = JSON.stringify([...await loadUsers(dir)]);
+    const want = JSON.stringify([
+      ["madushika pramod", { username: "mpramod" }],
+      ["ops", { userkey: "8a7f0001" }],
+      ["old", { username: "new" }],
+    ]);
+    if (got !== want) throw new Error(`Expected ${want}\nGot ${got}`);
+
+    await Deno.writeTextFile(path.join(dir, "users.json"), JSON.stringify({ bad: {} }));
+    let message = "";
+    try { await loadUsers(dir); } catch (err) { message = (err as Error).message; }
+    if (!message.includes("Invalid user mapping")) throw new Error(`Expected invalid mapping error, got "${message}"`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 2) Mapped mentions → ac:link/ri:user; unmapped ones warn; e-mail, links and code untouched
+Deno.test("mentions: mapped users linked, unmapped reported", async () => {
+  const users = new Map([
+    ["madushika pramod", { username: "mpramod" }],
+    ["madushika", { username: "short" }],
+    ["ops", { userkey: "8a7f0001" }],
+  ]);
+  const md = "Ping @Madushika Pramod and @ops, not @nobody.\n\n" +
+    "Mail writerside@jetbrains.com, see [@ops](https://example.com) or `@ops`.";
+  const t = new WritersideMarkdownTransformerDC({ users });
+  const { value: s, warnings } = await t.toStorage(md, "/docs/topic.md");
+  expectIncludes(s, [
+    'Ping <ac:link><ri:user ri:username="mpramod"></ri:user></ac:link> and ' +
+      '<ac:link><ri:user ri:userkey="8a7f0001"></ri:user></ac:link>, not @nobody.',
+    "writerside@jetbrains.com",
+    '<a href="https://example.com">@ops</a>',
+    "<code>@ops</code>",
+  ]);
+  const got = warnings.map((w) => `${w.file}:${w.line}: ${w.message}`).join("\n");
+  if (got !== '/docs/topic.md:1: Unmapped mention "@nobody" (not in users.json); emitted as text') {
+    throw new Error(`Unexpected warnings:\n${got}`);
+  }
+});
@@ -0,0 +1,31 @@
+// mermaid.test.ts
+import { limited } from "../lib/utils/mermaid.ts";
+
+// 1) At most AUTHORD_MERMAID_CONCURRENCY renders at once; a failing one frees its slot for the queue
+Deno.test("mermaid: concurrency bound and queue after a failure", async () => {
+  Deno.env.set("AUTHORD_MERMAID_CONCURRENCY", "2");
+  try {
+    let running = 0, peak = 0;
+    const done: number[] = [];
+    const task = (i: number) => limited(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((r) => setTimeout(r, 5));
+      running--;
+      if (i === 1) throw new Error("render failed");
+      done.push(i);
+      return i;
+    });
+
+    const results = await Promise.allSettled([0, 1, 2, 3, 4, 5].map(task));
+    if (peak !== 2) throw new Error(`Expected at most 2 at once, saw ${peak}`);
+    const failed = results.flatMap((r, i) => (r.status === "rejected" ? [`${i}: ${(r.reason as Error).message}`] : []));
+    if (failed.join() !== "1: render failed") throw new Error(`Unexpected failures: ${failed}`);
+    if (done.sort().join() !== "0,2,3,4,5") throw new Error(`Queued tasks did not all run: ${done}`);
+
+    // the slots are free again afterwards
+    if (await limited(() => Promise.resolve("again")) !== "again") throw new Error("limited() stuck after the run");
+  } finally {
+    Deno.env.delete("AUTHORD_MERMAID_CONCURRENCY");
+  }
+});
@@ -0,0 +1,78 @@
+// page-target.test.ts
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createTargetPage, findTargetPage } from "../lib/utils/page-target.ts";
+import { pageStateKey, readState, STATE_FILE, writeState } from "../lib/utils/state.ts";
+import type { ConfluenceCfg, PageTarget } from "../lib/utils/types.ts";
+import { FakeConfluence } from "./fake-confluence.ts";
+
+async function withFake(fn: (root: string, fake: FakeConfluence, cfg: ConfluenceCfg) => Promise<void>) {
+  const root = await Deno.makeTempDir();
+  const fake = new FakeConfluence();
+  const restore = fake.install();
+  try {
+    await fn(root, fake, { baseUrl: fake.baseUrl, apiToken: "user:pass" });
+  } finally {
+    restore();
+    await Deno.remove(root, { recursive: true });
+  }
+}
+
+const target: PageTarget = { spaceKey: "DOC", title: "Handbook" };
+const stateId = async (root: string, cfg: ConfluenceCfg) =>
+  (await readState(root)).pages[pageStateKey(cfg.baseUrl, "DOC", "Handbook")]?.id;
+
+// 1) The id in .authord-state.json is used without a title lookup
+Deno.test("target: state file hit", async () => {
+  await withFake(async (root, fake, cfg) => {
+    const page = fake.addPage({ title: "Handbook (renamed)" });
+    await writeState(root, { pages: { [pageStateKey(cfg.baseUrl, "DOC", "Handbook")]: { id: page.id, spaceKey: "DOC", title: "Handbook" } } });
+
+    const hit = await findTargetPage(cfg, root, target);
+    if (hit?.id !== page.id || hit.nextVersion !== 2) throw new Error(`Unexpected page: ${JSON.stringify(hit)}`);
+    if (fake.requests.includes("GET /rest/api/content")) throw new Error("State hit must not look up the title");
+  });
+});
+
+// 2) A stale id (page deleted → 404) falls back to the title and records the page found
+Deno.test("target: stale state id falls back to title lookup", async () => {
+  await withFake(async (root, fake, cfg) => {
+    const page = fake.addPage({ title: "Handbook" });
+    await writeState(root, { pages: { [pageStateKey(cfg.baseUrl, "DOC", "Handbook")]: { id: "999", spaceKey: "DOC", title: "Handbook" } } });
+
+    const hit = await findTargetPage(cfg, root, target);
+    if (hit?.id !== page.id) throw new Error(`Expected title match ${page.id}, got ${JSON.stringify(hit)}`);
+    if (await stateId(root, cfg) !== page.id) throw new Error("State must point at the page found by title");
+  });
+});
+
+// 3) Nothing found → undefined; creating puts the page under --parent-id and remembers it
+Deno.test("target: create under parent id", async () => {
+  await withFake(async (root, fake, cfg) => {
+    const parent = fake.addPage({ title: "Team space home" });
+    if (await findTargetPage(cfg, root, target) !== undefined) throw new Error("Expected no page");
+
+    const created = await createTargetPage(cfg, root, { ...target, parentId: parent.id }, "<p>Hi</p>");
+    const page = fake.page(created.id);
+    if (page.parentId !== parent.id || page.spaceKey !== "DOC" || page.title !== "Handbook") {
+      throw new Error(`Unexpected page: ${JSON.stringify(page)}`);
+    }
+    if (await stateId(root, cfg) !== created.id) throw new Error("State must record the created page");
+    if ((await findTargetPage(cfg, root, target))?.id !== created.id) throw new Error("Next run must find it");
+  });
+});
+
+// 4) --dry-run never writes the state file (neither dropping a stale id nor recording a title match)
+Deno.test("target: dry run leaves the state file alone", async () => {
+  await withFake(async (root, fake, cfg) => {
+    const page = fake.addPage({ title: "Handbook" });
+    const hit = await findTargetPage(cfg, root, target, { dryRun: true });
+    if (hit?.id !== page.id) throw new Error(`Unexpected page: ${JSON.stringify(hit)}`);
+    if (fs.existsSync(path.join(root, STATE_FILE))) throw new Error("Dry run wrote the state file");
+
+    const stale = { pages: { [pageStateKey(cfg.baseUrl, "DOC", "Handbook")]: { id: "999", spaceKey: "DOC", title: "Handbook" } } };
+    await writeState(root, stale);
+    await findTargetPage(cfg, root, target, { dryRun: true });
+    if (await stateId(root, cfg) !== "999") throw new Error("Dry run changed the state file");
+  });
+});
@@ -0,0 +1,106 @@
+// publish-single.test.ts
+import * as path from "node:path";
+import { publishSingle } from "../lib/publish-single.ts";
+import { IMAGE_DIR, setImageDir } from "../lib/utils/images.ts";
+import { findManualEdit } from "../lib/utils/publish-utils.ts";
+import type { PublishSingleOptions } from "../lib/utils/types.ts";
+import { FakeConfluence } from "./fake-confluence.ts";
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+// 1) exportVersion: missing, garbled or not behind the page → no manual edit
+Deno.test("manual edit: exportVersion edge cases", async () => {
+  const fake = new FakeConfluence();
+  const restore = fake.install();
+  try {
+    const cfg = { baseUrl: fake.baseUrl, apiToken: "user:pass" };
+    const check = (exportVersion: string | undefined, version: number) => {
+      const page = fake.addPage({ title: `v${version}`, version, by: "Alice" });
+      if (exportVersion !== undefined) page.props.exportVersion = { value: exportVersion, version: 1 };
+      return findManualEdit(cfg, { id: page.id, title: page.title, nextVersion: version + 1, editedBy: "Alice", editedAt: "today" });
+    };
+
+    for (const [recorded, version] of [[undefined, 5], ["", 5], ["abc", 5], ["3.5", 5], ["5", 5], ["6", 5]] as const) {
+      const edit = await check(recorded, version);
+      if (edit) throw new Error(`exportVersion ${JSON.stringify(recorded)} at version ${version}: unexpected ${JSON.stringify(edit)}`);
+    }
+    const edit = await check("4", 6);
+    if (JSON.stringify(edit) !== JSON.stringify({ publishedVersion: 4, currentVersion: 6, editedBy: "Alice", editedAt: "today" })) {
+      throw new Error(`Unexpected edit: ${JSON.stringify(edit)}`);
+    }
+  } finally {
+    restore();
+  }
+});
+
+/** One-topic project; page "Guide" was published at version 1 and then edited by Alice (version 2). */
+async function withEditedPage(fn: (fake: FakeConfluence, opts: PublishSingleOptions, id: string) => Promise<void>) {
+  const prev = IMAGE_DIR;
+  const root = await Deno.makeTempDir();
+  await Deno.mkdir(path.join(root, "topics"));
+  await Deno.writeTextFile(path.join(root, "topics", "guide.md"), "# Guide\n\nNew text.\n");
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(root, "work"));
+
+  const fake = new FakeConfluence();
+  const page = fake.addPage({ title: "Guide", body: "<p>Old text.</p>" });
+  page.props.exportHash = { value: "stale", version: 1 };
+  page.props.exportVersion = { value: "1", version: 1 };
+  fake.editInConfluence(page.id, "Alice", "<p>Old text, fixed by hand.</p>");
+  const restore = fake.install();
+  try {
+    await fn(fake, {
+      rootDir: root, md: "topics", images: "images", baseUrl: fake.baseUrl, basicAuth: "user:pass", pageId: page.id,
+    }, page.id);
+  } finally {
+    restore();
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    await Deno.remove(root, { recursive: true });
+  }
+}
+
+// 2) An edited page is refused without --force and overwritten with it
+Deno.test("manual edit: publish refuses without --force", async () => {
+  await withEditedPage(async (fake, opts, id) => {
+    let message = "";
+    try { await publishSingle(opts); } catch (err) { message = (err as Error).message; }
+    expectIncludes(message, [
+      `“Guide” (id ${id}) was edited in Confluence since the last publish: version 2 by Alice`,
+      "(published version: 1). Re-run with --force to overwrite.",
+    ], "error");
+    if (fake.writes().length) throw new Error(`Nothing may be written:\n${fake.writes().join("\n")}`);
+
+    await publishSingle({ ...opts, force: true });
+    const page = fake.page(id);
+    if (!page.body.includes("New text.") || page.version !== 3 || page.props.exportVersion.value !== "3") {
+      throw new Error(`--force must overwrite: ${JSON.stringify(page)}`);
+    }
+  });
+});
+
+// 3) --dry-run warns about the edit, shows the diff and writes nothing
+Deno.test("manual edit: dry run warns that --force is needed", async () => {
+  await withEditedPage(async (fake, opts, id) => {
+    const out: string[] = [];
+    const { log, warn } = console;
+    console.log = console.warn = (...args: unknown[]) => { out.push(args.join(" ")); };
+    try {
+      await publishSingle({ ...opts, dryRun: true });
+    } finally {
+      Object.assign(console, { log, warn });
+    }
+    expectIncludes(out.join("\n"), [
+      `⚠️ “Guide” (id ${id}) was edited in Confluence since the last publish: version 2 by Alice`,
+      "Publishing would need --force.",
+      "-   Old text, fixed by hand.",
+      "🔢 Would write version 3.",
+    ], "dry-run output");
+    if (fake.writes().length) throw new Error(`Dry run wrote:\n${fake.writes().join("\n")}`);
+  });
+});
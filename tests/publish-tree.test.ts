@@ -0,0 +1,104 @@
+// publish-tree.test.ts
+import * as path from "node:path";
+import { publishTree } from "../lib/publish-tree.ts";
+import { IMAGE_DIR, setImageDir } from "../lib/utils/images.ts";
+import type { PublishTreeOptions } from "../lib/utils/types.ts";
+import { FakeConfluence } from "./fake-confluence.ts";
+
+function expectEqual(actual: unknown, expected: unknown, ctx = "value") {
+  const a = JSON.stringify(actual, null, 2);
+  const e = JSON.stringify(expected, null, 2);
+  if (a !== e) throw new Error(`Expected ${ctx}:\n${e}\n\nGot:\n${a}`);
+}
+
+/**
+ * Project Alpha (→ Beta), Gamma under an existing root page "Docs";
+ * "Gamma" already exists there (made by hand), so it is matched by title.
+ */
+async function withProject(fn: (root: string, fake: FakeConfluence, opts: PublishTreeOptions) => Promise<void>) {
+  const prev = IMAGE_DIR;
+  const root = await Deno.makeTempDir();
+  await Deno.mkdir(path.join(root, "topics"));
+  await Deno.mkdir(path.join(root, "images"));
+  await Deno.writeTextFile(path.join(root, "writerside.cfg"), '<ihp version="2.0"><instance src="d.tree"/></ihp>');
+  await Deno.writeTextFile(path.join(root, "d.tree"),
+    '<instance-profile id="d" name="Docs"><toc-element topic="alpha.md"><toc-element topic="beta.md"/></toc-element>' +
+    '<toc-element topic="gamma.md"/></instance-profile>');
+  for (const name of ["Alpha", "Beta", "Gamma"]) {
+    await Deno.writeTextFile(path.join(root, "topics", `${name.toLowerCase()}.md`), `# ${name}\n\nAbout ${name}.\n`);
+  }
+  Deno.env.set("AUTHORD_WORK_DIR", path.join(root, "work"));
+
+  const fake = new FakeConfluence();
+  const docs = fake.addPage({ title: "Docs" });
+  fake.addPage({ title: "Gamma", parentId: docs.id, body: "<p>old</p>" });
+  const restore = fake.install();
+  try {
+    await fn(root, fake, {
+      rootDir: root, md: "topics", images: "images", baseUrl: fake.baseUrl, basicAuth: "user:pass", pageId: docs.id,
+    });
+  } finally {
+    restore();
+    setImageDir(prev);
+    Deno.env.delete("AUTHORD_WORK_DIR");
+    await Deno.remove(root, { recursive: true });
+  }
+}
+
+// 1) Missing pages are created, existing ones matched by title, siblings put in TOC order
+Deno.test("tree: create vs match by title, sibling reorder", async () => {
+  await withProject(async (_root, fake, opts) => {
+    const gamma = fake.byTitle("Gamma");
+    await publishTree(opts);
+
+    const alpha = fake.byTitle("Alpha");
+    expectEqual(fake.children(opts.pageId!).map((p) => p.title), ["Alpha", "Gamma"], "root children");
+    expectEqual(fake.children(alpha.id).map((p) => p.title), ["Beta"], "Alpha children");
+    expectEqual(fake.requests.filter((r) => r === "POST /rest/api/content").length, 2, "pages created");
+    if (fake.byTitle("Gamma") !== gamma || gamma.version !== 2 || !gamma.body.includes("About Gamma.")) {
+      throw new Error(`Gamma must be updated in place: ${JSON.stringify(gamma)}`);
+    }
+    if (!fake.requests.includes(`PUT /rest/api/content/${gamma.id}/move/after/${alpha.id}`)) {
+      throw new Error(`Expected Gamma moved after Alpha:\n${fake.writes().join("\n")}`);
+    }
+    expectEqual(
+      ["Alpha", "Beta", "Gamma"].map((t) => fake.byTitle(t).props.exportVersion?.value),
+      ["1", "1", "2"],
+      "exportVersion",
+    );
+  });
+});
+
+// 2) A second run with nothing changed writes nothing
+Deno.test("tree: unchanged hash skips the page", async () => {
+  await withProject(async (_root, fake, opts) => {
+    await publishTree(opts);
+    fake.requests = [];
+    await publishTree(opts);
+    expectEqual(fake.writes(), [], "writes on the second run");
+  });
+});
+
+// 3) Pages edited in Confluence are left alone and fail the run; --force overwrites them
+Deno.test("tree: manually edited pages block the run without --force", async () => {
+  await withProject(async (root, fake, opts) => {
+    await publishTree(opts);
+    const alpha = fake.byTitle("Alpha");
+    fake.editInConfluence(alpha.id, "Alice");
+    await Deno.writeTextFile(path.join(root, "topics", "alpha.md"), "# Alpha\n\nRewritten.\n");
+    await Deno.writeTextFile(path.join(root, "topics", "gamma.md"), "# Gamma\n\nAlso new.\n");
+
+    let message = "";
+    try { await publishTree(opts); } catch (err) { message = (err as Error).message; }
+    if (!message.startsWith("1 page(s) were edited in Confluence since the last publish") || !message.includes("“Alpha”")) {
+      throw new Error(`Unexpected error: "${message}"`);
+    }
+    if (alpha.body !== "<p>edited</p>") throw new Error("Edited page must not be overwritten");
+    if (!fake.byTitle("Gamma").body.includes("Also new.")) throw new Error("Other pages must still be published");
+
+    await publishTree({ ...opts, force: true });
+    if (!alpha.body.includes("Rewritten.") || alpha.props.exportVersion.value !== "3") {
+      throw new Error(`--force must overwrite: ${JSON.stringify(alpha)}`);
+    }
+  });
+});
@@ -0,0 +1,60 @@
+// seealso.test.ts
+import * as path from "node:path";
+import { WritersideMarkdownTransformerDC } from "../lib/writerside-markdown-transformer.ts";
+import { loadCategories } from "../lib/utils/writerside-project.ts";
+import { validateMarkdown } from "../lib/utils/markdown-validator.ts";
+
+const ROOT = path.resolve(import.meta.dirname!, "../sample/writerside");
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+// 1) c.list order decides the group order; unknown refs come last, titled with the ref
+Deno.test("seealso: groups follow c.list order", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(path.join(dir, "c.list"),
+      `<categories><category id="ext" name="External" order="2"/><category id="how" name="How-to" order="1"/></categories>`);
+    const categories = await loadCategories(dir);
+    const got = JSON.stringify([...categories]);
+    if (got !== '[["how","How-to"],["ext","External"]]') throw new Error(`Unexpected categories: ${got}`);
+
+    const sample = await loadCategories(ROOT);
+    if (sample.get("wrs") !== "Writerside documentation") throw new Error(`sample wrs: ${sample.get("wrs")}`);
+
+    const md =
+`<seealso>
+    <category ref="other"><a href="https://example.com/c">C</a></category>
+    <category ref="ext"><a href="https://example.com/b">B</a></category>
+    <category ref="how"><a href="https://example.com/a">A</a></category>
+</seealso>`;
+    const s = (await new WritersideMarkdownTransformerDC({ categories }).toStorage(md)).value;
+    expectIncludes(s, [
+      "<h2>See also</h2>" +
+        '<p><strong>How-to</strong></p><ul><li><a href="https://example.com/a">A</a></li></ul>' +
+        '<p><strong>External</strong></p><ul><li><a href="https://example.com/b">B</a></li></ul>' +
+        '<p><strong>other</strong></p><ul><li><a href="https://example.com/c">C</a></li></ul>',
+    ]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 2) Validation reports refs missing from c.list
+Deno.test("seealso: validation flags unknown category refs", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".md" });
+  try {
+    await Deno.writeTextFile(file,
+      `<seealso>\n<category ref="wrs"><a href="https://example.com">x</a></category>\n<category ref="nope"><a href="https://example.com">y</a></category>\n</seealso>\n`);
+    const res = await validateMarkdown(file, undefined, { categories: new Set(["wrs"]) });
+    const got = res.errors.map((e) => `${e.type}:${e.target}`).join();
+    if (got !== "CATEGORY:nope") throw new Error(`Unexpected errors: ${got}`);
+  } finally {
+    await Deno.remove(file);
+  }
+});
@@ -0,0 +1,37 @@
+// storage-diff.test.ts
+import { diffStorage, formatDiff, normalizeStorage } from "../lib/utils/storage-diff.ts";
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+// 1) Serializer noise is normalized away
+Deno.test("diff: attribute order, macro ids, wrapper and whitespace are ignored", () => {
+  const live = '<h1>Home</h1><ac:structured-macro ac:name="toc" ac:macro-id="1"/><p>Hello   world</p><br />';
+  const gen =
+    '<div xmlns:ac="http://atlassian.com/content"><h1>Home</h1>' +
+    '<ac:structured-macro ac:macro-id="2" ac:name="toc"/><p>Hello world</p><br/></div>';
+  const { added, removed } = diffStorage(live, gen);
+  if (added || removed) throw new Error(`Expected no changes, got +${added} -${removed}`);
+});
+
+// 2) Changed text is reported inside its structure
+Deno.test("diff: changed text shows as -/+ lines under its tag", () => {
+  const { ops, added, removed } = diffStorage("<p>Hello <strong>world</strong></p>", "<p>Hello <strong>there</strong></p>");
+  if (added !== 1 || removed !== 1) throw new Error(`Expected +1 -1, got +${added} -${removed}`);
+  expectIncludes(formatDiff(ops), ["    <strong>", "-     world", "+     there"]);
+  expectIncludes(normalizeStorage("<p>a</p>").join("\n"), ["<p>\n  a\n</p>"]);
+});
+
+// 3) Large, fully rewritten bodies diff in linear memory
+Deno.test("diff: 3000 replaced lines stay cheap", () => {
+  const body = (s: string) => Array.from({ length: 3000 }, (_, i) => `<p>${s} ${i}</p>`).join("");
+  const started = performance.now();
+  const { added, removed } = diffStorage(body("old"), body("new"));
+  if (added !== 3000 || removed !== 3000) throw new Error(`Expected +3000 -3000, got +${added} -${removed}`);
+  if (performance.now() - started > 5000) throw new Error("Diff took longer than 5 s");
+});
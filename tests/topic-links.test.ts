@@ -0,0 +1,75 @@
+// topic-links.test.ts
+import { WritersideMarkdownTransformerDC } from "../lib/writerside-markdown-transformer.ts";
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+const anchor = (id: string) =>
+  `<ac:structured-macro ac:name="anchor" ac:schema-version="1"><ac:parameter ac:name="">${id}</ac:parameter></ac:structured-macro>`;
+
+// 1) Cross-topic and same-topic links become in-page anchor links
+Deno.test("links: cross-topic .md#heading → ac:link to merged anchor", async () => {
+  const t = new WritersideMarkdownTransformerDC();
+  const { value: s, warnings } = await t.toStorageTopics([
+    { file: "/p/topics/setup.md", markdown: "# Setup\n\n## Install {id=\"install\"}\n\nSee [usage](usage.md#run-it) and [above](#install)." },
+    { file: "/p/topics/usage.md", markdown: "Intro\n\n## Run it\n\nBack to [setup](setup.md)." },
+  ]);
+  expectIncludes(s, [
+    `<h1>${anchor("setup")}${anchor("setup-setup")}Setup</h1>`,
+    anchor("setup-install"),
+    `<p>${anchor("usage")}</p>`,
+    `<h2>${anchor("usage-run-it")}Run it</h2>`,
+    '<ac:link ac:anchor="usage-run-it"><ac:link-body>usage</ac:link-body></ac:link>',
+    '<ac:link ac:anchor="setup-install"><ac:link-body>above</ac:link-body></ac:link>',
+    '<ac:link ac:anchor="setup"><ac:link-body>setup</ac:link-body></ac:link>',
+  ]);
+  if (warnings.length) throw new Error(`Unexpected warnings: ${JSON.stringify(warnings)}`);
+});
+
+// 2) Unresolvable links are reported and emitted as text; external links untouched
+Deno.test("links: unresolved topic link reported, text kept", async () => {
+  const t = new WritersideMarkdownTransformerDC();
+  const { value: s, warnings } = await t.toStorageTopics([
+    { file: "/p/topics/a.md", markdown: "# A\n\nGo [elsewhere](missing.md#x), [b](b.md#nope) or [web](https://example.com)." },
+    { file: "/p/topics/b.md", markdown: "# B" },
+  ]);
+  expectIncludes(s, ["Go elsewhere, b or ", '<a href="https://example.com">web</a>']);
+  if (s.includes('href="missing.md') || s.includes('href="b.md')) throw new Error(`Broken href emitted:\n${s}`);
+  const got = warnings.map((w) => `${w.file}:${w.line}`);
+  if (got.join() !== "/p/topics/a.md:3,/p/topics/a.md:3") throw new Error(`Unexpected warnings: ${JSON.stringify(warnings)}`);
+});
+
+// 3) Headings demoted by TOC depth, capped at h6; opt-out via headingShift: false
+Deno.test("headings: topic headings shifted by TOC depth", async () => {
+  const topics = [
+    { file: "/p/topics/a.md", markdown: "# A", depth: 0 },
+    { file: "/p/topics/b.md", markdown: "# B\n\n## B.1", depth: 1 },
+    { file: "/p/topics/c.md", markdown: "# C\n\n##### C.deep", depth: 2 },
+  ];
+  const shifted = (await new WritersideMarkdownTransformerDC().toStorageTopics(topics)).value;
+  expectIncludes(shifted, [`<h1>${anchor("a")}`, `<h2>${anchor("b")}`, `<h3>${anchor("b-b1")}`, `<h3>${anchor("c")}`, `<h6>${anchor("c-cdeep")}`]);
+
+  const flat = (await new WritersideMarkdownTransformerDC({ headingShift: false }).toStorageTopics(topics)).value;
+  expectIncludes(flat, [`<h1>${anchor("b")}`, `<h5>${anchor("c-cdeep")}`]);
+});
+
+// 4) A stray % in a link is taken literally instead of failing the whole page
+Deno.test("links: percent signs that are not escapes", async () => {
+  const t = new WritersideMarkdownTransformerDC();
+  const { value: s, warnings } = await t.toStorageTopics([
+    { file: "/p/topics/a.md", markdown: "# A\n\nGet the [deal](50%off.md), [x](#100%) or [y](b.md#0%25)." },
+    { file: "/p/topics/50%off.md", markdown: "# Sale\n\n## 100%" },
+    { file: "/p/topics/b.md", markdown: "# B" },
+  ]);
+  expectIncludes(s, [
+    '<ac:link ac:anchor="50off"><ac:link-body>deal</ac:link-body></ac:link>',
+    "x or y.",
+  ]);
+  const got = warnings.map((w) => w.message).join("\n");
+  expectIncludes(got, ['Unresolved link "#100%"', 'Unresolved link "b.md#0%25"'], "warnings");
+});
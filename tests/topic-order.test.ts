@@ -0,0 +1,97 @@
+// topic-order.test.ts
+import * as path from "node:path";
+import { resolveMdInOrder, resolveOrderedTopics, resolveTopicTree } from "../lib/utils/topic-order.ts";
+
+const ROOT = path.resolve(import.meta.dirname!, "../sample/writerside");
+const TOPICS = path.join(ROOT, "topics");
+
+function expectEqual(actual: unknown, expected: unknown, ctx = "value") {
+  const a = JSON.stringify(actual, null, 2);
+  const e = JSON.stringify(expected, null, 2);
+  if (a !== e) throw new Error(`Expected ${ctx}:\n${e}\n\nGot:\n${a}`);
+}
+
+// 1) Flat DFS order (start-page first)
+Deno.test("order: writerside tree flattened in DFS order", async () => {
+  const files = await resolveMdInOrder(ROOT, TOPICS);
+  expectEqual(files.map((f) => path.basename(f)), ["home.md", "0-home-child.md", "Sibling.md"]);
+});
+
+// 2) Hierarchy kept for page-tree publishing
+Deno.test("order: writerside tree keeps toc-element nesting", async () => {
+  const tree = await resolveTopicTree(ROOT, TOPICS);
+  const shape = (nodes: typeof tree): unknown =>
+    nodes.map((n) => ({ file: path.basename(n.file), children: shape(n.children) }));
+  expectEqual(shape(tree), [
+    { file: "home.md", children: [{ file: "0-home-child.md", children: [] }] },
+    { file: "Sibling.md", children: [] },
+  ]);
+});
+
+// 3) Instance selection
+Deno.test("order: --instance keeps one instance, unknown ids are rejected", async () => {
+  const files = await resolveMdInOrder(ROOT, TOPICS, { instance: "as" });
+  expectEqual(files.map((f) => path.basename(f)), ["home.md", "0-home-child.md", "Sibling.md"]);
+
+  let msg = "";
+  try {
+    await resolveTopicTree(ROOT, TOPICS, { instance: "nope" });
+  } catch (err) {
+    msg = (err as Error).message;
+  }
+  if (!msg.includes('Unknown instance "nope"') || !msg.includes("as")) {
+    throw new Error(`Expected unknown-instance error, got: ${msg || "no error"}`);
+  }
+});
+
+// 4) Depths for heading demotion in the flattened page
+Deno.test("order: ordered topics carry their toc depth", async () => {
+  const topics = await resolveOrderedTopics(ROOT, TOPICS);
+  expectEqual(topics.map((t) => [path.basename(t.file), t.depth]), [["home.md", 0], ["0-home-child.md", 1], ["Sibling.md", 0]]);
+});
+
+// 5) Two instances: --instance picks one tree; --orphans appends only topics no instance references
+Deno.test("order: --instance and --orphans on a two-instance project", async () => {
+  const root = await Deno.makeTempDir();
+  const topics = path.join(root, "topics");
+  await Deno.mkdir(topics);
+  for (const f of ["guide.md", "install.md", "api.md", "stray.md"]) {
+    await Deno.writeTextFile(path.join(topics, f), `# ${f}\n`);
+  }
+  await Deno.writeTextFile(path.join(root, "writerside.cfg"),
+    '<ihp version="2.0"><topics dir="topics"/><instance src="g.tree"/><instance src="r.tree"/></ihp>');
+  await Deno.writeTextFile(path.join(root, "g.tree"),
+    '<instance-profile id="g" name="Guide" start-page="guide.md">' +
+    '<toc-element topic="guide.md"><toc-element topic="install.md"/></toc-element></instance-profile>');
+  await Deno.writeTextFile(path.join(root, "r.tree"),
+    '<instance-profile id="r" name="Reference" start-page="api.md"><toc-element topic="api.md"/></instance-profile>');
+
+  const logs: string[] = [];
+  const log = console.log;
+  console.log = (...args: unknown[]) => { logs.push(args.join(" ")); };
+  try {
+    const names = (files: string[]) => files.map((f) => path.basename(f));
+    expectEqual(names(await resolveMdInOrder(root, topics)), ["guide.md", "install.md", "api.md"]);
+    expectEqual(names(await resolveMdInOrder(root, topics, { instance: "g" })), ["guide.md", "install.md"]);
+    expectEqual(names(await resolveMdInOrder(root, topics, { instance: "r" })), ["api.md"]);
+    // api.md belongs to the other instance, so only stray.md is an orphan
+    expectEqual(names(await resolveMdInOrder(root, topics, { instance: "g", orphans: true })),
+      ["guide.md", "install.md", "stray.md"]);
+
+    const tree = await resolveTopicTree(root, topics, { instance: "r", orphans: true });
+    const shape = (nodes: typeof tree): unknown =>
+      nodes.map((n) => ({ file: path.basename(n.file), children: shape(n.children) }));
+    expectEqual(shape(tree), [{ file: "api.md", children: [] }, { file: "stray.md", children: [] }]);
+
+    expectEqual(logs, [
+      "ℹ️ 1 topic(s) not referenced by any tree were left out (use --orphans to append them).",
+      "ℹ️ 1 topic(s) not referenced by any tree were left out (use --orphans to append them).",
+      "ℹ️ 1 topic(s) not referenced by any tree were left out (use --orphans to append them).",
+      "ℹ️ 1 topic(s) not referenced by any tree were appended at the end.",
+      "ℹ️ 1 topic(s) not referenced by any tree were appended at the end.",
+    ], "orphan messages");
+  } finally {
+    console.log = log;
+    await Deno.remove(root, { recursive: true });
+  }
+});
@@ -95,26 +95,107 @@ Deno.test("table: GFM 2x2", async () => {
   ]);
 });
 
-// 9) Fenced code with language
-Deno.test("code: fenced js becomes pre/code with language class", async () => {
+// 8b) GFM column alignment → per-cell text-align style
+Deno.test("table: GFM alignment becomes text-align styles", async () => {
+  const md = "| Left | Center | Right |\n| :--- | :----: | ----: |\n| a | b | c |";
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, [
+    '<th style="text-align: left;">Left</th><th style="text-align: center;">Center</th><th style="text-align: right;">Right</th>',
+    '<td style="text-align: left;">a</td><td style="text-align: center;">b</td><td style="text-align: right;">c</td>',
+  ]);
+  if (s.includes("align=")) throw new Error(`Unexpected align attribute:\n${s}`);
+});
+
+// 8c) Writerside XML table: header column + row, widths, cells with lists and code
+Deno.test("table: Writerside style=both with widths, list and code cells", async () => {
+  const md =
+`<table style="both">
+    <tr><td width="120">Option</td><td width="40%">Details</td></tr>
+    <tr><td>Steps</td><td>
+        <list type="decimal"><li>Open</li><li>Save</li></list>
+    </td></tr>
+    <tr><td>Example</td><td>
+        <code-block lang="shell"><![CDATA[echo "<done>"]]></code-block>
+    </td></tr>
+</table>`;
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, [
+    '<table><colgroup><col style="width: 120px;"/><col style="width: 40%;"/></colgroup><tbody>',
+    "<tr><th>Option</th><th>Details</th></tr><tr><th>Steps</th><td>",
+    "<ol><li>Open</li><li>Save</li></ol>",
+    "<tr><th>Example</th><td>",
+    '<ac:parameter ac:name="language">bash</ac:parameter><ac:plain-text-body><![CDATA[echo "<done>"]]></ac:plain-text-body>',
+  ]);
+  for (const bad of ['style="both"', "width=", "<list", "<code-block"]) {
+    if (s.includes(bad)) throw new Error(`Unexpected ${bad}:\n${s}`);
+  }
+});
+
+// 8d) Writerside header-column table keeps the first row as data
+Deno.test("table: Writerside header-column", async () => {
+  const md = `<table style="header-column">\n<tr><td>Name</td><td>authord</td></tr>\n<tr><td>License</td><td>AGPL</td></tr>\n</table>`;
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, ["<tr><th>Name</th><td>authord</td></tr><tr><th>License</th><td>AGPL</td></tr>"]);
+});
+
+// 9) Fenced code with language → code macro (language mapped, CDATA body)
+Deno.test("code: fenced js becomes code macro with language", async () => {
   const md = "```javascript\nconsole.log('Hello, world!');\n```";
   const t = new WritersideMarkdownTransformerDC();
   const s = (await t.toStorage(md)).value;
   expectIncludes(s, [
-    '<pre><code class="language-javascript">console.log(\'Hello, world!\');\n</code></pre>',
+    '<ac:structured-macro ac:name="code" ac:schema-version="1"><ac:parameter ac:name="language">js</ac:parameter>' +
+      "<ac:plain-text-body><![CDATA[console.log('Hello, world!');]]></ac:plain-text-body></ac:structured-macro>",
+  ]);
+});
+
+// 9b) Writerside attributes after the fence → macro parameters; unknown language → text
+Deno.test("code: title/collapsible/lineNumbers attributes become macro parameters", async () => {
+  const md = '```kotlin\nfun main() = println("]]>")\n```\n{title="Main.kt" collapsible="true" lineNumbers="true"}';
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, [
+    '<ac:parameter ac:name="language">text</ac:parameter>',
+    '<ac:parameter ac:name="title">Main.kt</ac:parameter>',
+    '<ac:parameter ac:name="collapse">true</ac:parameter>',
+    '<ac:parameter ac:name="linenumbers">true</ac:parameter>',
+    '<![CDATA[fun main() = println("]]]]><![CDATA[>")]]>',
   ]);
+  if (s.includes("{title=")) throw new Error(`Attribute line left in:\n${s}`);
 });
 
-// 10) Info/Warning/Error panels (rendered as blockquotes with strong label)
-for (const kind of ["Info", "Warning", "Error"] as const) {
+// 10) Info/Warning/Error panels → Confluence panel macros, label removed
+for (const [kind, macro] of [["Info", "info"], ["Warning", "warning"], ["Error", "warning"]] as const) {
   Deno.test(`blockquote: ${kind} label`, async () => {
     const md = `> **${kind}:** This is a ${kind.toLowerCase()} panel.`;
     const t = new WritersideMarkdownTransformerDC();
     const s = (await t.toStorage(md)).value;
-    expectIncludes(s, ["<blockquote>", `<strong>${kind}:</strong> This is a ${kind.toLowerCase()} panel.`, "</blockquote>"]);
+    expectIncludes(s, [
+      `<ac:structured-macro ac:name="${macro}" ac:schema-version="1"><ac:rich-text-body>`,
+      `<p>This is a ${kind.toLowerCase()} panel.</p>`,
+      "</ac:rich-text-body></ac:structured-macro>",
+    ]);
+    if (s.includes("<blockquote>") || s.includes(`${kind}:`)) throw new Error(`Label/blockquote left in:\n${s}`);
   });
 }
 
+// 10b) Writerside {style="…"} suffix (lazy continuation or next line) → panel macro
+Deno.test("blockquote: Writerside style suffix", async () => {
+  const md = `> Use with care.\n{style="note"}\n\n> Pro tip.\n>\n> Second line.\n\n{style="tip"}`;
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, [
+    '<ac:structured-macro ac:name="note" ac:schema-version="1"><ac:rich-text-body>',
+    "<p>Use with care.</p>",
+    '<ac:structured-macro ac:name="tip" ac:schema-version="1"><ac:rich-text-body>',
+    "<p>Second line.</p>",
+  ]);
+  if (s.includes("style=") || s.includes("<blockquote>")) throw new Error(`Suffix/blockquote left in:\n${s}`);
+});
+
 // 11) Plain blockquote
 Deno.test("blockquote: plain", async () => {
   const md = "> This is a blockquote.";
@@ -179,8 +260,8 @@ Deno.test("image: width + border-effect → ac:image width + thumbnail", async (
   ]);
 });
 
-// 19) Procedure XML with inner <img …> → @@ATTACH
-Deno.test("xml: procedure inner image becomes @@ATTACH", async () => {
+// 19) Procedure XML → anchored title + ordered list; inner <img …> → ac:image
+Deno.test("xml: procedure becomes a titled ordered list with attached images", async () => {
   const md =
 `<procedure title="Inject a procedure" id="inject-a-procedure">
     <step>
@@ -194,27 +275,75 @@ Deno.test("xml: procedure inner image becomes @@ATTACH", async () => {
   const t = new WritersideMarkdownTransformerDC();
   const s = (await t.toStorage(md)).value;
   expectIncludes(s, [
-    "<procedure title=\"Inject a procedure\" id=\"inject-a-procedure\">",
-    "@@ATTACH|file=completion_procedure.png@@",
-    "</procedure>",
+    '<p><ac:structured-macro ac:name="anchor" ac:schema-version="1"><ac:parameter ac:name="">inject-a-procedure</ac:parameter></ac:structured-macro>' +
+      "<strong>Inject a procedure</strong></p><ol><li><p>Start typing",
+    'ac:alt="completion suggestions for procedure" ac:border="true"><ri:attachment ri:filename="completion_procedure.png"',
+    "</li><li><p>Press",
+    "</li></ol>",
   ]);
+  for (const bad of ["<procedure", "<step>", "@@ATTACH"]) {
+    if (s.includes(bad)) throw new Error(`Unexpected ${bad}:\n${s}`);
+  }
 });
 
+// 19b) type="choices" → bulleted list
+Deno.test("xml: choices procedure becomes a bulleted list", async () => {
+  const md = `<procedure title="Pick one" type="choices">\n<step>Local</step>\n<step>Remote</step>\n</procedure>`;
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, ["<p><strong>Pick one</strong></p><ul><li>Local</li><li>Remote</li></ul>"]);
+});
 
-// 21) Collapsible header literal suffix
-Deno.test("headers: collapsible suffix preserved literally", async () => {
-  const md = "#### Supplementary info {collapsible=\"true\"}";
+// 21) Collapsible heading → expand macro around its section, titled with the heading text
+Deno.test("headers: collapsible heading wraps its section in an expand macro", async () => {
+  const md = "#### Supplementary info {collapsible=\"true\"}\n\nHidden text.\n\n##### Nested\n\nStill hidden.\n\n#### Next\n\nVisible.";
   const t = new WritersideMarkdownTransformerDC();
   const s = (await t.toStorage(md)).value;
-  expectIncludes(s, ['<h4>Supplementary info {collapsible="true"}</h4>']);
+  expectIncludes(s, [
+    '<ac:structured-macro ac:name="expand" ac:schema-version="1"><ac:parameter ac:name="title">Supplementary info</ac:parameter>' +
+      "<ac:rich-text-body>",
+    "<p>Hidden text.</p>",
+    "<h5>Nested</h5>",
+    "<p>Still hidden.</p>\n</ac:rich-text-body></ac:structured-macro>",
+    "<h4>Next</h4>",
+  ]);
+  if (s.includes("collapsible") || s.includes("<h4>Supplementary")) throw new Error(`Heading/suffix left in:\n${s}`);
 });
 
-// 22) Convert selection image → @@ATTACH with width
-Deno.test("xml-ish: convert selection image → @@ATTACH|width", async () => {
+// 21b) default-state="expanded" stays an open section; the suffix is still removed
+Deno.test("headers: collapsible heading with default-state expanded stays a heading", async () => {
+  const md = "## Details {collapsible=\"true\" default-state=\"expanded\"}\n\nShown.";
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, ["<h2>Details</h2>", "<p>Shown.</p>"]);
+  if (s.includes('ac:name="expand"') || s.includes("default-state")) throw new Error(`Unexpected expand:\n${s}`);
+});
+
+// 22) Raw HTML <img> → ac:image with width, alt and border
+Deno.test("xml-ish: raw HTML image becomes ac:image with width/alt/border", async () => {
   const md = '<img src="convert_table_to_xml.png" alt="Convert table to XML" width="706" border-effect="line"/>';
   const t = new WritersideMarkdownTransformerDC();
   const s = (await t.toStorage(md)).value;
-  expectIncludes(s, ["@@ATTACH|file=convert_table_to_xml.png|width=706@@"]);
+  expectIncludes(s, [
+    "<ac:image",
+    'ac:width="706"',
+    'ac:alt="Convert table to XML"',
+    'ac:border="true"',
+    '<ri:attachment ri:filename="convert_table_to_xml.png"',
+  ]);
+  if (s.includes("@@ATTACH")) throw new Error(`Unresolved stub:\n${s}`);
+});
+
+// 22b) Any file name works; stub-like author text stays text
+Deno.test("xml-ish: raw HTML image named with @, and literal @@ATTACH text", async () => {
+  const md = '<img src="logo@2x.png" alt="Logo" width="200"/>\n\nWrite `@@ATTACH|file=evil.png@@` or @@ATTACH|file=evil.png@@ as text.';
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, [
+    '<ac:image ac:width="200" ac:thumbnail="true" ac:alt="Logo"><ri:attachment ri:filename="logo@2x.png"',
+    "<code>@@ATTACH|file=evil.png@@</code> or @@ATTACH|file=evil.png@@ as text.",
+  ]);
+  if (s.includes("evil.png\"")) throw new Error(`Author text became an image:\n${s}`);
 });
 
 // 23) Feedback/support links preserved
@@ -234,8 +363,8 @@ Email <a href="mailto:writerside@jetbrains.com">writerside@jetbrains.com</a>.`;
   ]);
 });
 
-// 24) Seealso block preserved
-Deno.test("seealso: category + links preserved", async () => {
+// 24) Seealso → "See also" heading + a titled list per c.list category
+Deno.test("seealso: category becomes a titled link list", async () => {
   const md =
 `<seealso>
     <category ref="wrs">
@@ -245,17 +374,18 @@ Deno.test("seealso: category + links preserved", async () => {
         <a href="https://www.jetbrains.com/help/writerside/configure-search.html">Configure Search</a>
     </category>
 </seealso>`;
-  const t = new WritersideMarkdownTransformerDC();
+  const t = new WritersideMarkdownTransformerDC({ categories: new Map([["wrs", "Writerside documentation"]]) });
   const s = (await t.toStorage(md)).value;
   expectIncludes(s, [
-    "<seealso>",
-    '<category ref="wrs">',
-    'href="https://www.jetbrains.com/help/writerside/markup-reference.html"',
-    'href="https://www.jetbrains.com/help/writerside/manage-table-of-contents.html"',
-    'href="https://www.jetbrains.com/help/writerside/local-build.html"',
-    'href="https://www.jetbrains.com/help/writerside/configure-search.html"',
-    "</seealso>",
+    "<h2>See also</h2><p><strong>Writerside documentation</strong></p><ul>",
+    '<li><a href="https://www.jetbrains.com/help/writerside/markup-reference.html">Markup reference</a></li>',
+    '<li><a href="https://www.jetbrains.com/help/writerside/manage-table-of-contents.html">Reorder topics in the TOC</a></li>',
+    '<li><a href="https://www.jetbrains.com/help/writerside/local-build.html">Build and publish</a></li>',
+    '<li><a href="https://www.jetbrains.com/help/writerside/configure-search.html">Configure Search</a></li></ul>',
   ]);
+  for (const bad of ["<seealso", "<category"]) {
+    if (s.includes(bad)) throw new Error(`Unexpected ${bad}:\n${s}`);
+  }
 });
 
 // 25) Wrapper namespaces always present
@@ -305,30 +435,28 @@ async function storageToString(
 
 
 
-// 14) Mermaid → remains a mermaid code block when images dir missing
+// 14) Mermaid → remains a code macro when images dir missing
 Deno.test(
-  'mermaid: fenced block stays <pre><code class="language-mermaid"> when images dir missing',
+  'mermaid: fenced block stays a code macro when images dir missing',
   async () => {
     const md =
       "```mermaid\ngraph TD\n    A[Start] --> B{Is it working?}\n    B -- Yes --> C[Keep going]\n    B -- No --> D[Fix it]\n    D --> B\n```";
     const t = new WritersideMarkdownTransformerDC();;
     const s = await storageToString(t, md);
     expectIncludes(s, [
-      '<pre><code class="language-mermaid">graph TD',
+      '<ac:structured-macro ac:name="code"',
+      "<![CDATA[graph TD",
       "A[Start] --> B{Is it working?}",
       "B -- Yes --> C[Keep going]",
       "B -- No --> D[Fix it]",
-      "D --> B",
-      "</code></pre>",
+      "D --> B]]>",
     ]);
   }
 );
 
-// 20) Tabs: markdown code stays literal; xml tab emits @@ATTACH CDATA
-Deno.test(
-  "tabs: markdown code keeps literal image; xml tab uses @@ATTACH in commented CDATA",
-  async () => {
-    const md = `<tabs>
+// 20) Tabs → one expand macro per tab; bodies parsed as Markdown, <code-block> → code macro
+Deno.test("tabs: each tab becomes an expand macro with Markdown body", async () => {
+  const md = `<tabs>
     <tab title="Markdown">
         <code-block lang="plain text">![Alt Text](new_topic_options.png){ width=450 }</code-block>
     </tab>
@@ -336,22 +464,40 @@ Deno.test(
         <code-block lang="xml">
             <![CDATA[<img src="new_topic_options.png" alt="Alt text" width="450px"/>]]></code-block>
     </tab>
+    <tab title="macOS">
+        Install with **Homebrew**:
+
+        - \`brew install authord\`
+    </tab>
 </tabs>`;
-    const t = new WritersideMarkdownTransformerDC();;
-    const s = await storageToString(t, md);
-    // markdown tab — stays literal
-    expectIncludes(s, [
-      '<tab title="Markdown">',
-      '<code-block lang="plain text">![Alt Text](new_topic_options.png){ width=450 }</code-block>',
-    ]);
-    // xml tab — commented CDATA with @@ATTACH
-    expectIncludes(s, [
-      '<tab title="Semantic markup">',
-      '<code-block lang="xml">',
-      "<!--[CDATA[@@ATTACH|file=new_topic_options.png|width=450@@]]-->",
-    ]);
+  const t = new WritersideMarkdownTransformerDC();
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, [
+    '<ac:structured-macro ac:name="expand" ac:schema-version="1"><ac:parameter ac:name="title">Markdown</ac:parameter>' +
+      '<ac:rich-text-body><ac:structured-macro ac:name="code" ac:schema-version="1"><ac:parameter ac:name="language">text</ac:parameter>' +
+      "<ac:plain-text-body><![CDATA[![Alt Text](new_topic_options.png){ width=450 }]]>",
+    '<ac:parameter ac:name="title">Semantic markup</ac:parameter>',
+    '<ac:parameter ac:name="language">xml</ac:parameter><ac:plain-text-body><![CDATA[<img src="new_topic_options.png" alt="Alt text" width="450px"/>]]>',
+    '<ac:parameter ac:name="title">macOS</ac:parameter><ac:rich-text-body><p>Install with <strong>Homebrew</strong>:</p>',
+    "<li><code>brew install authord</code></li>",
+  ]);
+  for (const bad of ["<tabs", "<tab ", "<code-block", "@@ATTACH", "<ac:image"]) {
+    if (s.includes(bad)) throw new Error(`Unexpected ${bad}:\n${s}`);
   }
-);
+});
+
+// 20b) Tabs as titled panels
+Deno.test("tabs: panel style renders a titled panel per tab", async () => {
+  const md = `<tabs>\n<tab title="Windows">\n\nRun the installer.\n\n</tab>\n<tab title="Linux">\n\nUse the tarball.\n\n</tab>\n</tabs>`;
+  const t = new WritersideMarkdownTransformerDC({ tabs: "panel" });
+  const s = (await t.toStorage(md)).value;
+  expectIncludes(s, [
+    '<ac:structured-macro ac:name="panel" ac:schema-version="1"><ac:parameter ac:name="title">Windows</ac:parameter>' +
+      "<ac:rich-text-body><p>Run the installer.</p></ac:rich-text-body></ac:structured-macro>",
+    '<ac:parameter ac:name="title">Linux</ac:parameter><ac:rich-text-body><p>Use the tarball.</p>',
+  ]);
+});
+
 // 26) Image trailing attrs: not parsed (current behavior); braces show as text
 Deno.test(
   "image: trailing attrs are not parsed; image rendered + literal {width ... height=...}",
@@ -373,7 +519,7 @@ Deno.test(
     ]);
   }
 );
-// 27) Mermaid deterministic filename test → also code block when images dir missing
+// 27) Mermaid deterministic filename test → also code macro when images dir missing
 Deno.test(
   "mermaid: when images dir missing, remains a mermaid code block (no ac:image)",
   async () => {
@@ -381,8 +527,8 @@ Deno.test(
     const t = new WritersideMarkdownTransformerDC();;
     const s = await storageToString(t, md);
     expectIncludes(s, [
-      '<pre><code class="language-mermaid">graph TD; A-->B;',
-      "</code></pre>",
+      '<ac:parameter ac:name="language">text</ac:parameter>',
+      "<ac:plain-text-body><![CDATA[graph TD; A-->B;]]></ac:plain-text-body>",
     ]);
   }
 );
@@ -399,3 +545,36 @@ Deno.test(
     ]);
   }
 );
+// 30) Writerside semantic inline tags → storage formatting; unknown tags unwrapped
+Deno.test(
+  "inline: semantic tags mapped, unknown tags keep their text",
+  async () => {
+    const md = 'Press <shortcut>Ctrl+C</shortcut> or <shortcut key="$Copy"/>, click <control>OK</control> in ' +
+      '<ui-path>File | Settings</ui-path>, edit <path>~/.config</path>, <emphasis>carefully</emphasis>, ' +
+      'see the <tooltip term="API">API</tooltip> and <custom-tag>this text</custom-tag>.';
+    const t = new WritersideMarkdownTransformerDC();
+    const s = await storageToString(t, md);
+    expectIncludes(s, [
+      "Press <code>Ctrl+C</code> or <code>$Copy</code>, click <strong>OK</strong> in ",
+      "<strong>File | Settings</strong>, edit <code>~/.config</code>, <em>carefully</em>, ",
+      "see the API and this text.",
+    ]);
+    for (const bad of ["<shortcut", "<control", "<tooltip", "<custom-tag"]) {
+      if (s.includes(bad)) throw new Error(`Unexpected ${bad}:\n${s}`);
+    }
+  }
+);
+// 30b) <style>, <script>, <noscript> and <template> are dropped with their content, not unwrapped
+Deno.test(
+  "inline: style, script, noscript and template are dropped",
+  async () => {
+    const md = '<style>.x{color:red}</style>\n\nBefore <script>alert(1)</script><noscript>No JS</noscript>' +
+      '<template><p>tpl</p></template>after.';
+    const t = new WritersideMarkdownTransformerDC();
+    const s = await storageToString(t, md);
+    expectIncludes(s, ["<p>Before after.</p>"]);
+    for (const bad of ["color:red", "alert(1)", "No JS", "tpl", "<style", "<script"]) {
+      if (s.includes(bad)) throw new Error(`Unexpected ${bad}:\n${s}`);
+    }
+  }
+);
@@ -0,0 +1,77 @@
+// writerside-variables.test.ts
+import * as path from "node:path";
+import { WritersideMarkdownTransformerDC } from "../lib/writerside-markdown-transformer.ts";
+import { loadVariables } from "../lib/utils/writerside-project.ts";
+import { validateMarkdown } from "../lib/utils/markdown-validator.ts";
+
+const ROOT = path.resolve(import.meta.dirname!, "../sample/writerside");
+
+function expectIncludes(haystack: string, needles: string[], ctx = "output") {
+  for (const n of needles) {
+    if (!haystack.includes(n)) {
+      throw new Error(`Expected ${ctx} to include:\n${n}\n\nGot:\n${haystack}`);
+    }
+  }
+}
+
+// 1) v.list + buildprofiles.xml, instance overrides win
+Deno.test("variables: v.list and build profile overrides", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(path.join(dir, "cfg"));
+    await Deno.writeTextFile(path.join(dir, "v.list"),
+      `<vars><var name="product" value="Writerside"/><var name="ver" value="1.0"/><var name="ver" value="2.0" instance="b"/></vars>`);
+    await Deno.writeTextFile(path.join(dir, "cfg/buildprofiles.xml"),
+      `<buildprofiles><variables><edition>Community</edition></variables>` +
+      `<build-profile instance="a"><variables><product>Product A</product></variables></build-profile></buildprofiles>`);
+
+    const a = await loadVariables(dir, "a");
+    const b = await loadVariables(dir, "b");
+    const got = JSON.stringify([[...a], [...b]]);
+    const want = JSON.stringify([
+      [["product", "Product A"], ["ver", "1.0"], ["edition", "Community"]],
+      [["product", "Writerside"], ["ver", "2.0"], ["edition", "Community"]],
+    ]);
+    if (got !== want) throw new Error(`Expected ${want}\nGot ${got}`);
+
+    const sample = await loadVariables(ROOT);
+    if (sample.get("product") !== "Writerside") throw new Error(`sample product: ${sample.get("product")}`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+// 2) Substitution in text/code/html; ignore-vars code and unknown names untouched
+Deno.test("variables: %name% substituted before conversion", async () => {
+  const variables = new Map([["product", "Writerside"]]);
+  const md =
+`%product% supports \`%product%\` and <b>%product%</b>, not %unknown%.
+
+\`\`\`shell
+echo %product%
+\`\`\`
+
+\`\`\`shell
+echo %product%
+\`\`\`
+{ignore-vars="true"}`;
+  const s = (await new WritersideMarkdownTransformerDC({ variables }).toStorage(md)).value;
+  expectIncludes(s, [
+    "Writerside supports <code>Writerside</code> and <b>Writerside</b>, not %unknown%.",
+    "echo Writerside",
+    "echo %product%",
+  ]);
+});
+
+// 3) Validation reports undefined variables
+Deno.test("variables: validation flags undefined %name%", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".md" });
+  try {
+    await Deno.writeTextFile(file, "%product% and %missing% and %missing%\n");
+    const res = await validateMarkdown(file, undefined, { variables: new Set(["product"]) });
+    const got = res.errors.map((e) => `${e.type}:${e.target}`).join();
+    if (got !== "VARIABLE:missing") throw new Error(`Unexpected errors: ${got}`);
+  } finally {
+    await Deno.remove(file);
+  }
+});